@@ -9,9 +9,19 @@
   over a short window without changing total damage dealt.
 
   Key Notes:
-  - serverPlayers is populated via OngoingPlayer (per-player tick callback).
-  - isDeployed is maintained via OnPlayerDeployed / OnPlayerDied.
-  - OnPlayerDamaged must be exported and must match SDK signature.
+  - Players come from the shared registry (modlib.players): isDeployed / isManDown are kept
+    there, and this block hooks its join / deploy / died / mandown / revived / leave events.
+  - Pending damage on the man-down transition follows `manDownPending` (cancel / keep / apply).
+  - Scripts that heal or revive should go through damageSmoother.heal / forceRevive
+    (or call notifyHealthChanged) so the health baseline stays correct.
+  - SDK handlers are registered with modlib.events under module "DamageSmoothing"; paste
+    copy-paste/EventExports.ts once to forward the SDK events (no exports of its own here).
+  - Queued damage is tracked per attacker, so kill / assist credit follows who really hit.
+  - Damage-type / weapon policies decide how (or whether) each hit is smoothed.
+  - All tuning lives on the `damageSmoother` instance and can be changed at runtime,
+    globally or per team / per player (see DamageSmoother.configure / setTeamOverride / setPlayerOverride).
+  - Opt-in telemetry (collectStats) is dumped as JSON at OnGameModeEnding or via dumpStats().
+  - Optional pending-damage HUD (ghost bar + hit marker): damageHud.configure({ enabled: true }).
 */
 
 import * as modlib from "modlib";
@@ -19,51 +29,13 @@ import * as modlib from "modlib";
 const TICK_RATE = 30;
 
 /**
- * "Live" heuristic:
+ * "Live" check:
  * BF Portal SDK in this typing file doesn’t expose a simple GameStatus getter.
- * Using elapsed time is a practical way to avoid running during pre-round.
+ * modlib.matchLifecycle tracks the phase from the mode's events (Live or Overtime here); if the
+ * mode doesn't forward them it falls back to elapsed time, which still skips pre-round.
  */
 function isMatchLive(): boolean {
-  return mod.GetMatchTimeElapsed() > 0;
-}
-
-/* =================================================================================================
-   SERVER PLAYER TRACKING
-================================================================================================= */
-
-class ServerPlayer {
-  public player: mod.Player;
-  public id: number;
-  public isDeployed: boolean;
-
-  constructor(player: mod.Player, id: number) {
-    this.player = player;
-    this.id = id;
-    this.isDeployed = false;
-  }
-}
-
-const serverPlayers = new Map<number, ServerPlayer>();
-
-function getOrCreateServerPlayer(p: mod.Player): ServerPlayer {
-  const id = modlib.getPlayerId(p);
-  let sp = serverPlayers.get(id);
-  if (!sp) {
-    sp = new ServerPlayer(p, id);
-    serverPlayers.set(id, sp);
-
-    // Initialize caches for this player to avoid undefined behavior later
-    dmgLastHealth[id] = dmgGetCurrentHealth(p);
-    dmgQueued[id] = 0;
-    dmgQueuedTicksLeft[id] = 0;
-    dmgQueuedGiverObjId[id] = 0;
-    dmgActive[id] = false;
-    dmgIsReapplying[id] = false;
-  } else {
-    // Keep the underlying player reference fresh
-    sp.player = p;
-  }
-  return sp;
+  return modlib.matchLifecycle.isLive();
 }
 
 /* =================================================================================================
@@ -78,56 +50,112 @@ function getPlayerPosition(player: mod.Player): mod.Vector {
   return mod.GetSoldierState(player, mod.SoldierStateVector.GetPosition);
 }
 
-function findServerPlayerByObjId(playerObjId: number): ServerPlayer | undefined {
-  let found: ServerPlayer | undefined = undefined;
-
-  serverPlayers.forEach((sp) => {
-    if (!sp) return;
-    if (!mod.IsPlayerValid(sp.player)) return;
+/* =================================================================================================
+   DAMAGE SMOOTHING CONFIGURATION
+================================================================================================= */
 
-    if (mod.GetObjId(sp.player) === playerObjId) {
-      found = sp;
-    }
-  });
+/**
+ * How a single hit is smoothed. Every field is optional; unset fields fall back to the
+ * distance-based windows of the active config.
+ */
+export interface DmgSpreadPolicy {
+  passThrough?: boolean;         // apply instantly, never smoothed
+  instantIfLethal?: boolean;     // a hit that kills on its own lands instantly (one-shot weapons)
+  spreadSec?: number;            // own spread window instead of the distance-based one
+  healthScale?: boolean;         // scale the window by victim health (default true)
+  maxDeferredFraction?: number;  // 0–1: share of one hit that may be deferred, the rest lands now
+  maxDeferred?: number;          // absolute cap on deferred damage per hit
+}
 
-  return found;
+/**
+ * What happens to damage still queued when the victim goes man-down:
+ * - "cancel": drop it (default). The revived soldier starts clean.
+ * - "keep":   hold it while downed and keep draining after a revive.
+ * - "apply":  re-apply all of it right away, attributed per attacker (counts toward assists).
+ */
+export type DmgManDownPending = "cancel" | "keep" | "apply";
+
+export interface DamageSmootherConfig {
+  enabled: boolean;              // false = hits land instantly (already-queued damage still drains)
+
+  manDownPending: DmgManDownPending;
+
+  closeMaxDist: number;
+  midMaxDist: number;
+
+  closeSec: number;              // 0–closeMaxDist m
+  midSec: number;                // closeMaxDist–midMaxDist m
+  farSec: number;                // midMaxDist m+
+
+  healthDelayMinFactor: number;  // window multiplier at 0 health
+  healthDelayMaxFactor: number;  // window multiplier at full health
+
+  /**
+   * Optional throttle:
+   * Updating *all* deployed players’ health cache every single tick can be wasteful.
+   * Instead each tick refreshes 1/N of the players (round robin), so every cache entry is at
+   * most N ticks old and the cost is the same on every tick. Global only (ignored in overrides).
+   */
+  healthCacheUpdateEveryNTicks: number;
+
+  /**
+   * healthCacheUpdateEveryNTicks is multiplied by this at each modlib.quality level, which
+   * PerfThrottles' LoadGovernor sets while the server falls behind. Global only.
+   */
+  healthCacheLoadScale: { [level in modlib.QualityLevel]: number };
+
+  /**
+   * Policies by damage type (matched with mod.EventDamageTypeCompare).
+   * Default damage (regular bullets) has no entry and uses the distance-based spread.
+   */
+  damageTypePolicies: { damageType: mod.PlayerDamageTypes; policy: DmgSpreadPolicy }[];
+
+  /**
+   * Policies by weapon (matched with mod.Equals against the event's WeaponUnlock).
+   * A weapon policy is layered over the damage-type policy, field by field.
+   */
+  weaponPolicies: { weapon: mod.Weapons | mod.Gadgets; policy: DmgSpreadPolicy }[];
+
+  /**
+   * Opt-in per-match statistics (see DamageSmoother.getStats / dumpStats). Global only.
+   * A handful of counter updates per hit; nothing is allocated per tick.
+   */
+  collectStats: boolean;
 }
 
-/* =================================================================================================
-   DAMAGE SMOOTHING CONFIGURATION
-================================================================================================= */
+const DMG_SPREAD_DEFAULT_CONFIG: DamageSmootherConfig = {
+  enabled: true,
 
-const DMG_SPREAD_CLOSE_MAX_DIST = 10;
-const DMG_SPREAD_MID_MAX_DIST = 25;
+  manDownPending: "cancel",
 
-const DMG_SPREAD_CLOSE_SEC = 2.0; // 0–10 m
-const DMG_SPREAD_MID_SEC = 1.8;   // 10–25 m
-const DMG_SPREAD_FAR_SEC = 1.6;   // 25 m+
+  closeMaxDist: 10,
+  midMaxDist: 25,
 
-const DMG_SPREAD_HEALTH_DELAY_MIN_FACTOR = 0.45;
-const DMG_SPREAD_HEALTH_DELAY_MAX_FACTOR = 1.0;
+  closeSec: 2.0,
+  midSec: 1.8,
+  farSec: 1.6,
 
-/**
- * Optional throttle:
- * Updating *all* deployed players’ health cache every single tick can be wasteful.
- * This runs the cache update every N ticks instead.
- */
-const HEALTH_CACHE_UPDATE_EVERY_N_TICKS = 2; // 2 => 15 Hz; set to 1 for full 30 Hz
-let gTickCounter = 0;
+  healthDelayMinFactor: 0.45,
+  healthDelayMaxFactor: 1.0,
 
-/* =================================================================================================
-   DAMAGE SMOOTHING STATE
-================================================================================================= */
+  healthCacheUpdateEveryNTicks: 2, // 2 => 15 Hz; set to 1 for full 30 Hz
+  healthCacheLoadScale: { normal: 1, strained: 2, critical: 3 },
 
-let dmgLastHealth: { [playerId: number]: number } = {};
-let dmgQueued: { [playerId: number]: number } = {};
-let dmgQueuedTicksLeft: { [playerId: number]: number } = {};
-let dmgQueuedGiverObjId: { [playerId: number]: number } = {};
+  damageTypePolicies: [
+    { damageType: mod.PlayerDamageTypes.Headshot, policy: { instantIfLethal: true, maxDeferredFraction: 0.5 } },
+    { damageType: mod.PlayerDamageTypes.Explosion, policy: { spreadSec: 1.0 } },
+    { damageType: mod.PlayerDamageTypes.Melee, policy: { passThrough: true } },
+    { damageType: mod.PlayerDamageTypes.Fire, policy: { passThrough: true } }, // burn ticks are already spread
+  ],
 
-let dmgActive: { [playerId: number]: boolean } = {};
-let dmgActiveIds: number[] = [];
+  weaponPolicies: [
+    // Competitive example: bolt-action snipers keep their one-shot feel
+    // { weapon: mod.Weapons.Sniper_M2010_ESR, policy: { passThrough: true } },
+    // { weapon: mod.Gadgets.Launcher_Unguided_Rocket, policy: { spreadSec: 0.8, maxDeferred: 60 } },
+  ],
 
-let dmgIsReapplying: { [playerId: number]: boolean } = {};
+  collectStats: false,
+};
 
 /* =================================================================================================
    DAMAGE SMOOTHING HELPERS
@@ -141,40 +169,18 @@ function dmgGetCurrentHealth(player: mod.Player): number {
   return mod.GetSoldierState(player, mod.SoldierStateNumber.CurrentHealth);
 }
 
-function dmgSpreadApplyHealthDelayScale(baseTicks: number, normalizedHealth: number): number {
-  let h = normalizedHealth;
-
-  if (typeof h !== "number" || !Number.isFinite(h)) h = 1;
-  if (h < 0) h = 0;
-  if (h > 1) h = 1;
-
-  const factor =
-    DMG_SPREAD_HEALTH_DELAY_MIN_FACTOR +
-    (DMG_SPREAD_HEALTH_DELAY_MAX_FACTOR - DMG_SPREAD_HEALTH_DELAY_MIN_FACTOR) * h;
-
-  const scaled = mod.Ceiling(baseTicks * factor);
-  return scaled < 1 ? 1 : scaled;
-}
-
-function dmgMarkActive(id: number): void {
-  if (dmgActive[id]) return;
-  dmgActive[id] = true;
-  dmgActiveIds.push(id);
-}
-
-function dmgUnmarkActive(id: number): void {
-  if (!dmgActive[id]) return;
-  dmgActive[id] = false;
-
-  const idx = dmgActiveIds.indexOf(id);
-  if (idx >= 0) dmgActiveIds.splice(idx, 1);
-}
-
 function dmgSpreadSecondsToTicks(sec: number): number {
   const raw = mod.Ceiling(sec * TICK_RATE);
   return raw < 1 ? 1 : raw;
 }
 
+function dmgSpreadStep(remaining: number, ticksLeft: number): number {
+  let step = mod.Ceiling(remaining / ticksLeft);
+  if (step < 1) step = 1;
+  if (step > remaining) step = remaining;
+  return step;
+}
+
 function dmgSpreadDistanceMeters(victim: mod.Player, attacker: mod.Player): number {
   if (!mod.IsPlayerValid(attacker)) return 99999;
   if (!isPlayerAlive(victim)) return 99999;
@@ -183,205 +189,1150 @@ function dmgSpreadDistanceMeters(victim: mod.Player, attacker: mod.Player): numb
   return mod.DistanceBetween(getPlayerPosition(victim), getPlayerPosition(attacker));
 }
 
-function dmgSpreadPickTicks(distanceMeters: number): number {
-  if (distanceMeters <= DMG_SPREAD_CLOSE_MAX_DIST) {
-    return dmgSpreadSecondsToTicks(DMG_SPREAD_CLOSE_SEC);
+function dmgReapply(victim: mod.Player, amount: number, giverObjId: number): void {
+  const giverSp = modlib.players.get(giverObjId);
+  if (giverSp && giverSp.isValid()) {
+    mod.DealDamage(victim, amount, giverSp.player);
+  } else {
+    mod.DealDamage(victim, amount);
+  }
+}
+
+/**
+ * How much of a hit is deferred under `policy`; the remainder is left to land instantly.
+ */
+function dmgSpreadDeferredAmount(policy: DmgSpreadPolicy, delta: number, healthBefore: number): number {
+  if (policy.passThrough) return 0;
+  if (policy.instantIfLethal && delta >= healthBefore) return 0;
+
+  let deferred = delta;
+  if (policy.maxDeferredFraction !== undefined) {
+    const cap = mod.Floor(delta * policy.maxDeferredFraction);
+    if (deferred > cap) deferred = cap;
   }
-  if (distanceMeters <= DMG_SPREAD_MID_MAX_DIST) {
-    return dmgSpreadSecondsToTicks(DMG_SPREAD_MID_SEC);
+  if (policy.maxDeferred !== undefined && deferred > policy.maxDeferred) {
+    deferred = policy.maxDeferred;
   }
-  return dmgSpreadSecondsToTicks(DMG_SPREAD_FAR_SEC);
+  return deferred < 0 ? 0 : deferred;
 }
 
 /* =================================================================================================
-   LIVE TICK FUNCTIONS
+   DAMAGE SMOOTHING TELEMETRY
 ================================================================================================= */
 
-function dmgSpreadUpdateHealthCacheTick(): void {
-  if (!isMatchLive()) return;
+/**
+ * JSON shape written by dumpStats(). Keys are fixed and victims are sorted by ObjId, so two
+ * dumps can be diffed line by line between builds.
+ */
+export interface DamageSmootherStatsReport {
+  version: 1;
+  matchSeconds: number;          // live seconds covered by this report
+  config: {
+    closeSec: number;
+    midSec: number;
+    farSec: number;
+    healthDelayMinFactor: number;
+    healthDelayMaxFactor: number;
+    manDownPending: DmgManDownPending;
+  };
+  hitsSeen: number;              // enemy hits that reached the smoother
+  hitsIntercepted: number;       // hits with at least part of the damage deferred
+  damageDeferred: number;        // total HP moved into the queue
+  largestBurst: number;          // largest single-frame damage on any victim
+  queueDamage: { avg: number; max: number };  // queued HP, sampled per victim per queue tick
+  queueTicks: { avg: number; max: number };   // spread window picked per intercepted hit
+  killsWithQueued: number;       // deaths while the victim still had damage queued
+  extraDealDamageCalls: number;
+  extraHealCalls: number;
+  extraCallsPerSecond: number;   // (extra DealDamage + Heal) / matchSeconds
+  victims: { objId: number; hitsIntercepted: number; damageDeferred: number; largestBurst: number }[];
+}
+
+class DmgSmoothingStats {
+  public sinceSec = 0;
+
+  public hitsSeen = 0;
+  public hitsIntercepted = 0;
+  public damageDeferred = 0;
+  public killsWithQueued = 0;
+  public dealDamageCalls = 0;
+  public healCalls = 0;
+
+  public queueDamageSum = 0;
+  public queueDamageMax = 0;
+  public queueDamageSamples = 0;
+
+  public queueTicksSum = 0;
+  public queueTicksMax = 0;
+
+  // victimId -> per-victim counters; burst* track damage within the current frame
+  public victimHits: { [playerId: number]: number } = {};
+  public victimDeferred: { [playerId: number]: number } = {};
+  public victimLargestBurst: { [playerId: number]: number } = {};
+  public burstFrame: { [playerId: number]: number } = {};
+  public burstAmount: { [playerId: number]: number } = {};
+
+  recordHit(victimId: number, delta: number, frame: number): void {
+    this.hitsSeen++;
 
-  serverPlayers.forEach((sp) => {
-    if (!sp || !sp.isDeployed) return;
-    if (!mod.IsPlayerValid(sp.player)) return;
-    if (!isPlayerAlive(sp.player)) return;
+    if (this.burstFrame[victimId] !== frame) {
+      this.burstFrame[victimId] = frame;
+      this.burstAmount[victimId] = 0;
+    }
+    this.burstAmount[victimId] += delta;
+    if (this.burstAmount[victimId] > (this.victimLargestBurst[victimId] ?? 0)) {
+      this.victimLargestBurst[victimId] = this.burstAmount[victimId];
+    }
+  }
+
+  recordIntercept(victimId: number, deferred: number, spreadTicks: number): void {
+    this.hitsIntercepted++;
+    this.damageDeferred += deferred;
+    this.healCalls++;
+
+    this.victimHits[victimId] = (this.victimHits[victimId] ?? 0) + 1;
+    this.victimDeferred[victimId] = (this.victimDeferred[victimId] ?? 0) + deferred;
+
+    this.queueTicksSum += spreadTicks;
+    if (spreadTicks > this.queueTicksMax) this.queueTicksMax = spreadTicks;
+  }
+
+  recordQueueSample(queued: number): void {
+    this.queueDamageSum += queued;
+    this.queueDamageSamples++;
+    if (queued > this.queueDamageMax) this.queueDamageMax = queued;
+  }
+
+  report(config: DamageSmootherConfig): DamageSmootherStatsReport {
+    const matchSeconds = mod.GetMatchTimeElapsed() - this.sinceSec;
+    const extraCalls = this.dealDamageCalls + this.healCalls;
+
+    const victims: DamageSmootherStatsReport["victims"] = [];
+    const ids = Object.keys(this.victimLargestBurst).map(Number).sort((a, b) => a - b);
+    let largestBurst = 0;
+    for (let i = 0; i < ids.length; i++) {
+      const id = ids[i];
+      const burst = this.victimLargestBurst[id];
+      if (burst > largestBurst) largestBurst = burst;
+      victims.push({
+        objId: id,
+        hitsIntercepted: this.victimHits[id] ?? 0,
+        damageDeferred: this.victimDeferred[id] ?? 0,
+        largestBurst: burst,
+      });
+    }
 
-    dmgLastHealth[sp.id] = dmgGetCurrentHealth(sp.player);
-  });
+    return {
+      version: 1,
+      matchSeconds: dmgStatsRound(matchSeconds),
+      config: {
+        closeSec: config.closeSec,
+        midSec: config.midSec,
+        farSec: config.farSec,
+        healthDelayMinFactor: config.healthDelayMinFactor,
+        healthDelayMaxFactor: config.healthDelayMaxFactor,
+        manDownPending: config.manDownPending,
+      },
+      hitsSeen: this.hitsSeen,
+      hitsIntercepted: this.hitsIntercepted,
+      damageDeferred: dmgStatsRound(this.damageDeferred),
+      largestBurst: dmgStatsRound(largestBurst),
+      queueDamage: {
+        avg: dmgStatsRound(this.queueDamageSamples > 0 ? this.queueDamageSum / this.queueDamageSamples : 0),
+        max: dmgStatsRound(this.queueDamageMax),
+      },
+      queueTicks: {
+        avg: dmgStatsRound(this.hitsIntercepted > 0 ? this.queueTicksSum / this.hitsIntercepted : 0),
+        max: this.queueTicksMax,
+      },
+      killsWithQueued: this.killsWithQueued,
+      extraDealDamageCalls: this.dealDamageCalls,
+      extraHealCalls: this.healCalls,
+      extraCallsPerSecond: dmgStatsRound(matchSeconds > 0 ? extraCalls / matchSeconds : 0),
+      victims: victims,
+    };
+  }
 }
 
-function dmgSpreadProcessQueueTick(): void {
-  if (!isMatchLive()) return;
-  if (dmgActiveIds.length === 0) return;
+function dmgStatsRound(value: number): number {
+  return mod.RoundToInteger(value * 100) / 100;
+}
+
+/* =================================================================================================
+   DAMAGE SMOOTHER
+================================================================================================= */
+
+/**
+ * Owns all smoothing state and tuning. A mode normally uses the single `damageSmoother`
+ * instance below; the exported event handlers forward to it.
+ *
+ * Overrides are keyed by the *victim*: a team or player override is merged over the base
+ * config (base <- team <- player) whenever one of their hits is intercepted.
+ */
+export class DamageSmoother {
+  private config: DamageSmootherConfig;
+  private teamOverrides: { [teamId: number]: Partial<DamageSmootherConfig> } = {};
+  private playerOverrides: { [playerId: number]: Partial<DamageSmootherConfig> } = {};
+
+  private paused = false;
+  private tickCounter = 0;
+  private loadLevel: modlib.QualityLevel = "normal";
+
+  private lastHealth: { [playerId: number]: number } = {};
+  private queued: { [playerId: number]: number } = {};
+  private queuedTicksLeft: { [playerId: number]: number } = {};
+
+  /**
+   * Per-attacker ledger:
+   * victimId -> attacker ObjId -> damage from that attacker still waiting to be re-applied.
+   * queued[victimId] is always the sum of the victim's ledger.
+   */
+  private queuedByGiver: { [playerId: number]: { [giverObjId: number]: number } } = {};
+
+  /**
+   * Attacker whose real hit pushed queued damage past the victim's health
+   * (the hit that would have killed without smoothing). -1 = nobody yet.
+   * Only this attacker is allowed to land the finishing blow.
+   */
+  private lethalGiverObjId: { [playerId: number]: number } = {};
+
+  private active: { [playerId: number]: boolean } = {};
+  private activeIds: number[] = [];
+
+  private isReapplying: { [playerId: number]: boolean } = {};
+
+  private healthCacheSlicer = new modlib.WorkSlicer<number>(DMG_SPREAD_DEFAULT_CONFIG.healthCacheUpdateEveryNTicks);
+
+  private stats = new DmgSmoothingStats();
+
+  constructor(config: Partial<DamageSmootherConfig> = {}) {
+    this.config = { ...DMG_SPREAD_DEFAULT_CONFIG, ...config };
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Runtime configuration
+  --------------------------------------------------------------------------------------------- */
+
+  /** Changes the base config, e.g. `configure({ closeSec: 1.2, midSec: 1.0, farSec: 0.8 })` in overtime. */
+  configure(changes: Partial<DamageSmootherConfig>): void {
+    this.config = { ...this.config, ...changes };
+  }
+
+  getConfig(): Readonly<DamageSmootherConfig> {
+    return this.config;
+  }
+
+  setTeamOverride(team: mod.Team, override: Partial<DamageSmootherConfig>): void {
+    this.teamOverrides[modlib.getTeamId(team)] = override;
+  }
+
+  clearTeamOverride(team: mod.Team): void {
+    delete this.teamOverrides[modlib.getTeamId(team)];
+  }
+
+  /** e.g. `setPlayerOverride(boss, { enabled: false })` or `setPlayerOverride(vip, { closeSec: 3 })` */
+  setPlayerOverride(player: mod.Player, override: Partial<DamageSmootherConfig>): void {
+    this.playerOverrides[modlib.getPlayerId(player)] = override;
+  }
+
+  clearPlayerOverride(player: mod.Player): void {
+    delete this.playerOverrides[modlib.getPlayerId(player)];
+  }
+
+  /**
+   * Paused: new hits land instantly and queued damage is frozen (not applied, not dropped).
+   * resume() continues draining where it left off.
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Heals through the smoother so the health baseline moves with it. Without this, a heal from
+   * mode code between cache refreshes makes the next hit look smaller than it was.
+   */
+  heal(player: mod.Player, amount: number, giver?: mod.Player): void {
+    if (giver) mod.Heal(player, amount, giver);
+    else mod.Heal(player, amount);
+    this.notifyHealthChanged(player);
+  }
+
+  /** mod.ForceRevive + the same bookkeeping as OnRevived. */
+  forceRevive(player: mod.Player): void {
+    mod.ForceRevive(player);
+    const sp = modlib.players.find(player);
+    if (!sp) return;
+    sp.isManDown = false;
+    this.onRevived(sp);
+  }
+
+  /** Re-reads the health baseline after mode code changed health (SetPlayerMaxHealth, ...). */
+  notifyHealthChanged(player: mod.Player): void {
+    if (!mod.IsPlayerValid(player)) return;
+    this.lastHealth[modlib.getPlayerId(player)] = dmgGetCurrentHealth(player);
+  }
+
+  /** True while the smoother itself is dealing this player's queued damage (OnPlayerDamaged fires for it). */
+  isReapplyingDamage(player: mod.Player): boolean {
+    return this.isReapplying[modlib.getPlayerId(player)] === true;
+  }
+
+  /** Damage still waiting to be re-applied to this player. */
+  getQueuedDamage(player: mod.Player): number {
+    return this.queued[modlib.getPlayerId(player)] ?? 0;
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Telemetry (config.collectStats)
+  --------------------------------------------------------------------------------------------- */
+
+  getStats(): DamageSmootherStatsReport {
+    return this.stats.report(this.config);
+  }
+
+  /** Starts a new report window, e.g. at the start of each round. */
+  resetStats(): void {
+    this.stats = new DmgSmoothingStats();
+    this.stats.sinceSec = mod.GetMatchTimeElapsed();
+  }
+
+  /**
+   * Writes the report as one JSON line to the console, where it can be copied out after the match.
+   * Not sent with mod.SendErrorReport: a mod.Message format is a string key, and the JSON's braces
+   * and length don't fit one. Called from OnGameModeEnding when collectStats is on.
+   */
+  dumpStats(): void {
+    const json = JSON.stringify(this.getStats());
+    console.log("[DamageSmoothing] stats " + json);
+  }
+
+  private configFor(victim: mod.Player, victimId: number): DamageSmootherConfig {
+    const teamOverride = this.teamOverrides[modlib.getTeamId(mod.GetTeam(victim))];
+    const playerOverride = this.playerOverrides[victimId];
+    if (!teamOverride && !playerOverride) return this.config;
+    return { ...this.config, ...teamOverride, ...playerOverride };
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Queue helpers
+  --------------------------------------------------------------------------------------------- */
+
+  private markActive(id: number): void {
+    if (this.active[id]) return;
+    this.active[id] = true;
+    this.activeIds.push(id);
+  }
+
+  private unmarkActive(id: number): void {
+    if (!this.active[id]) return;
+    this.active[id] = false;
+
+    const idx = this.activeIds.indexOf(id);
+    if (idx >= 0) this.activeIds.splice(idx, 1);
+  }
+
+  private clearQueue(id: number): void {
+    this.queued[id] = 0;
+    this.queuedTicksLeft[id] = 0;
+    this.queuedByGiver[id] = {};
+    this.lethalGiverObjId[id] = -1;
+    this.unmarkActive(id);
+  }
+
+  private applyHealthDelayScale(config: DamageSmootherConfig, baseTicks: number, normalizedHealth: number): number {
+    let h = normalizedHealth;
+
+    if (typeof h !== "number" || !Number.isFinite(h)) h = 1;
+    if (h < 0) h = 0;
+    if (h > 1) h = 1;
+
+    const factor =
+      config.healthDelayMinFactor +
+      (config.healthDelayMaxFactor - config.healthDelayMinFactor) * h;
+
+    const scaled = mod.Ceiling(baseTicks * factor);
+    return scaled < 1 ? 1 : scaled;
+  }
+
+  private pickTicks(config: DamageSmootherConfig, distanceMeters: number): number {
+    if (distanceMeters <= config.closeMaxDist) {
+      return dmgSpreadSecondsToTicks(config.closeSec);
+    }
+    if (distanceMeters <= config.midMaxDist) {
+      return dmgSpreadSecondsToTicks(config.midSec);
+    }
+    return dmgSpreadSecondsToTicks(config.farSec);
+  }
+
+  private resolvePolicy(
+    config: DamageSmootherConfig,
+    damageType: mod.DamageType,
+    weaponUnlock: mod.WeaponUnlock
+  ): DmgSpreadPolicy {
+    let policy: DmgSpreadPolicy = {};
+
+    for (let i = 0; i < config.damageTypePolicies.length; i++) {
+      const entry = config.damageTypePolicies[i];
+      if (mod.EventDamageTypeCompare(damageType, entry.damageType)) {
+        policy = { ...entry.policy };
+        break;
+      }
+    }
+
+    for (let i = 0; i < config.weaponPolicies.length; i++) {
+      const entry = config.weaponPolicies[i];
+      if (mod.Equals(weaponUnlock, entry.weapon)) {
+        policy = { ...policy, ...entry.policy };
+        break;
+      }
+    }
+
+    return policy;
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Live tick functions
+  --------------------------------------------------------------------------------------------- */
+
+  tick(): void {
+    this.tickCounter++;
+
+    // Cheap per-tick: only touches victims currently being smoothed
+    this.processQueueTick();
+
+    // Sliced scan: refreshes 1/N of the health cache each tick
+    this.updateHealthCacheTick();
+  }
+
+  /** Maximum age of a health cache entry in ticks, after the load level's scale. */
+  getHealthCacheStaleness(): number {
+    return this.config.healthCacheUpdateEveryNTicks * this.config.healthCacheLoadScale[this.loadLevel];
+  }
 
-  for (let i = dmgActiveIds.length - 1; i >= 0; i--) {
-    const id = dmgActiveIds[i];
-    const sp = serverPlayers.get(id);
+  /** Called through modlib.quality (registered below); "normal" unless PerfThrottles is pasted. */
+  setLoadLevel(level: modlib.QualityLevel): void {
+    this.loadLevel = level;
+  }
+
+  private updateHealthCacheTick(): void {
+    if (!isMatchLive()) return;
+
+    this.healthCacheSlicer.setMaxStaleness(this.getHealthCacheStaleness());
+    this.healthCacheSlicer.tick((id) => {
+      const sp = modlib.players.get(id);
+      if (!sp || !sp.isDeployed || sp.isManDown) return;
+      if (!mod.IsPlayerValid(sp.player)) return;
+      if (!isPlayerAlive(sp.player)) return;
+
+      this.lastHealth[sp.id] = dmgGetCurrentHealth(sp.player);
+    });
+  }
+
+  private processQueueTick(): void {
+    if (!isMatchLive()) return;
+    if (this.paused) return;
+    if (this.activeIds.length === 0) return;
+
+    for (let i = this.activeIds.length - 1; i >= 0; i--) {
+      const id = this.activeIds[i];
+      const sp = modlib.players.get(id);
+
+      // "keep": hold the queue untouched until the soldier is revived (or dies)
+      if (sp && sp.isManDown) continue;
+
+      if (!sp || !sp.isDeployed || !mod.IsPlayerValid(sp.player) || !isPlayerAlive(sp.player)) {
+        this.clearQueue(id);
+        continue;
+      }
+
+      const remaining = this.queued[id] ?? 0;
+      const ticksLeft = this.queuedTicksLeft[id] ?? 0;
+
+      if (remaining <= 0 || ticksLeft <= 0) {
+        this.unmarkActive(id);
+        continue;
+      }
+
+      if (this.config.collectStats) this.stats.recordQueueSample(remaining);
+
+      const ledger = this.queuedByGiver[id] ?? {};
+      let lethalObjId = this.lethalGiverObjId[id] ?? -1;
+      if (lethalObjId >= 0 && !modlib.players.get(lethalObjId)?.isValid()) {
+        // Lethal attacker left; let whoever lands the last step take the kill
+        lethalObjId = -1;
+      }
+
+      let health = dmgGetCurrentHealth(sp.player);
+
+      this.isReapplying[id] = true;
+
+      // Everyone except the lethal attacker first. Their share may never kill: anything past
+      // (health - 1) moves to the lethal attacker, so total damage is unchanged.
+      for (const key in ledger) {
+        const giverObjId = Number(key);
+        if (giverObjId === lethalObjId) continue;
+
+        const owed = ledger[giverObjId];
+        if (owed <= 0) continue;
+
+        let step = dmgSpreadStep(owed, ticksLeft);
+        if (lethalObjId >= 0 && step >= health) {
+          const excess = step - (health - 1);
+          step -= excess;
+          ledger[giverObjId] -= excess;
+          ledger[lethalObjId] = (ledger[lethalObjId] ?? 0) + excess;
+        }
+        if (step <= 0) continue;
+
+        // Book-keep before DealDamage: a lethal step fires OnPlayerDied, which clears the queue
+        ledger[giverObjId] -= step;
+        this.queued[id] -= step;
+        health -= step;
+        if (this.config.collectStats) this.stats.dealDamageCalls++;
+        dmgReapply(sp.player, step, giverObjId);
+        if (health <= 0) break;
+      }
+
+      // Then the finishing share from the attacker whose real hit was lethal
+      if (lethalObjId >= 0 && (ledger[lethalObjId] ?? 0) > 0 && health > 0) {
+        const step = dmgSpreadStep(ledger[lethalObjId], ticksLeft);
+        ledger[lethalObjId] -= step;
+        this.queued[id] -= step;
+        if (this.config.collectStats) this.stats.dealDamageCalls++;
+        dmgReapply(sp.player, step, lethalObjId);
+      }
+
+      this.isReapplying[id] = false;
+
+      // Victim died from the re-applied damage; OnPlayerDied already cleared the queue
+      if (!this.active[id]) continue;
+
+      this.queuedTicksLeft[id] -= 1;
+
+      if (this.queued[id] <= 0 || this.queuedTicksLeft[id] <= 0) {
+        this.unmarkActive(id);
+      }
+    }
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Event handlers
+  --------------------------------------------------------------------------------------------- */
+
+  onPlayerJoined(sp: modlib.ServerPlayer): void {
+    // Initialize caches for this player to avoid undefined behavior later
+    if (this.lastHealth[sp.id] === undefined) {
+      this.lastHealth[sp.id] = dmgGetCurrentHealth(sp.player);
+      this.healthCacheSlicer.add(sp.id);
+    }
+  }
+
+  onPlayerDeployed(sp: modlib.ServerPlayer): void {
+    // Seed health cache immediately on deploy
+    this.lastHealth[sp.id] = dmgGetCurrentHealth(sp.player);
+    this.healthCacheSlicer.add(sp.id);
+
+    // Clear any stale queue from prior life
+    this.clearQueue(sp.id);
+  }
+
+  onPlayerDied(sp: modlib.ServerPlayer): void {
+    if (this.config.collectStats && (this.queued[sp.id] ?? 0) > 0) this.stats.killsWithQueued++;
+
+    // Clear queue so we don't keep processing dead players
+    this.clearQueue(sp.id);
+  }
+
+  onMandown(sp: modlib.ServerPlayer): void {
+    const id = sp.id;
+    const pending = this.configFor(sp.player, id).manDownPending;
+
+    if (pending === "keep") return;
+
+    if (pending === "apply") {
+      const ledger = this.queuedByGiver[id] ?? {};
+      this.isReapplying[id] = true;
+      for (const key in ledger) {
+        const owed = ledger[key];
+        if (owed <= 0) continue;
+        if (this.config.collectStats) this.stats.dealDamageCalls++;
+        dmgReapply(sp.player, owed, Number(key));
+      }
+      this.isReapplying[id] = false;
+    }
+
+    this.clearQueue(id);
+  }
+
+  onRevived(sp: modlib.ServerPlayer): void {
+    // Revive sets a fresh health value; anything cached from before man-down is wrong now
+    this.lastHealth[sp.id] = dmgGetCurrentHealth(sp.player);
+
+    // Whatever was lethal before the revive isn't any more ("keep" re-evaluates on the next hit)
+    this.lethalGiverObjId[sp.id] = -1;
+  }
+
+  onPlayerLeft(id: number): void {
+    this.clearQueue(id);
+    this.healthCacheSlicer.remove(id);
+    delete this.lastHealth[id];
+  }
+
+  onPlayerDamaged(
+    victimSp: modlib.ServerPlayer,
+    eventOtherPlayer: mod.Player,
+    eventDamageType: mod.DamageType,
+    eventWeaponUnlock: mod.WeaponUnlock
+  ): void {
+    const eventPlayer = victimSp.player;
+    const victimId = victimSp.id;
+    const cur = dmgGetCurrentHealth(eventPlayer);
+
+    // Ignore our own re-applied damage, and hits on downed soldiers (revive resets the baseline)
+    if (this.isReapplying[victimId] || victimSp.isManDown) {
+      this.lastHealth[victimId] = cur;
+      return;
+    }
 
-    if (!sp || !sp.isDeployed || !mod.IsPlayerValid(sp.player) || !isPlayerAlive(sp.player)) {
-      dmgQueued[id] = 0;
-      dmgQueuedTicksLeft[id] = 0;
-      dmgQueuedGiverObjId[id] = 0;
-      dmgUnmarkActive(id);
-      continue;
+    // Only smooth enemy damage (ignore self, invalid, or friendly)
+    if (!mod.IsPlayerValid(eventOtherPlayer) || mod.Equals(eventPlayer, eventOtherPlayer)) {
+      this.lastHealth[victimId] = cur;
+      return;
     }
 
-    const remaining = dmgQueued[id] ?? 0;
-    const ticksLeft = dmgQueuedTicksLeft[id] ?? 0;
+    if (mod.Equals(mod.GetTeam(eventPlayer), mod.GetTeam(eventOtherPlayer))) {
+      this.lastHealth[victimId] = cur;
+      return;
+    }
+
+    const prev = this.lastHealth[victimId];
+    if (prev === undefined) {
+      this.lastHealth[victimId] = cur;
+      return;
+    }
+
+    const delta = prev - cur;
+    if (delta <= 0) {
+      this.lastHealth[victimId] = cur;
+      return;
+    }
 
-    if (remaining <= 0 || ticksLeft <= 0) {
-      dmgUnmarkActive(id);
-      continue;
+    if (this.config.collectStats) this.stats.recordHit(victimId, delta, this.tickCounter);
+
+    const config = this.configFor(eventPlayer, victimId);
+    if (this.paused || !config.enabled) {
+      this.lastHealth[victimId] = cur;
+      return;
     }
 
-    let step = mod.Ceiling(remaining / ticksLeft);
-    if (step < 1) step = 1;
-    if (step > remaining) step = remaining;
+    const policy = this.resolvePolicy(config, eventDamageType, eventWeaponUnlock);
+    const deferred = dmgSpreadDeferredAmount(policy, delta, prev);
+    const instant = delta - deferred;
+
+    // Baseline is the health after the instant part, so multiple hits in the same frame get collected
+    this.lastHealth[victimId] = prev - instant;
+
+    if (deferred <= 0) return;
 
-    const giverSp = dmgQueuedGiverObjId[id]
-      ? findServerPlayerByObjId(dmgQueuedGiverObjId[id])
-      : undefined;
+    // Undo the deferred part of the burst immediately
+    mod.Heal(eventPlayer, deferred);
 
-    dmgIsReapplying[id] = true;
-    if (giverSp && mod.IsPlayerValid(giverSp.player)) {
-      mod.DealDamage(sp.player, step, giverSp.player);
+    // Queue damage to be re-applied smoothly
+    let spreadTicks: number;
+    if (policy.spreadSec !== undefined) {
+      spreadTicks = dmgSpreadSecondsToTicks(policy.spreadSec);
     } else {
-      mod.DealDamage(sp.player, step);
+      const dist = dmgSpreadDistanceMeters(eventPlayer, eventOtherPlayer);
+      spreadTicks = this.pickTicks(config, dist);
     }
-    dmgIsReapplying[id] = false;
+    if (policy.healthScale !== false) {
+      spreadTicks = this.applyHealthDelayScale(config, spreadTicks, dmgGetNormalizedHealth(eventPlayer));
+    }
+
+    const giverObjId = mod.GetObjId(eventOtherPlayer);
+    const healthAfter = prev - instant;
+    const queuedBefore = this.queued[victimId] ?? 0;
 
-    dmgQueued[id] -= step;
-    dmgQueuedTicksLeft[id] -= 1;
+    const ledger = this.queuedByGiver[victimId] ?? (this.queuedByGiver[victimId] = {});
+    ledger[giverObjId] = (ledger[giverObjId] ?? 0) + deferred;
 
-    if (dmgQueued[id] <= 0 || dmgQueuedTicksLeft[id] <= 0) {
-      dmgUnmarkActive(id);
+    this.queued[victimId] = queuedBefore + deferred;
+    this.queuedTicksLeft[victimId] = spreadTicks;
+
+    if (this.config.collectStats) this.stats.recordIntercept(victimId, deferred, spreadTicks);
+
+    // This is the hit that would have killed without smoothing
+    if (queuedBefore < healthAfter && this.queued[victimId] >= healthAfter) {
+      this.lethalGiverObjId[victimId] = giverObjId;
     }
+
+    this.markActive(victimId);
   }
 }
 
+export const damageSmoother = new DamageSmoother();
+
 /* =================================================================================================
-   EVENT HANDLERS (MUST BE EXPORTED + MATCH SDK SIGNATURES)
+   PENDING DAMAGE HUD (OPTIONAL)
 ================================================================================================= */
 
 /**
- * Runs once per player per tick. Perfect place to ensure serverPlayers is populated.
+ * Smoothed damage drains over a couple of seconds, which reads as "lag" unless the victim can
+ * see what is still coming. The HUD draws a small health bar with a trailing "ghost" segment
+ * for queued damage, plus an attacker-side hit marker.
+ *
+ * Off by default. When on, cost scales with players currently being smoothed, not with
+ * player count: bars are only refreshed while something is queued, at most every
+ * `updateEveryNTicks`, and widgets are only touched when a segment changes by a pixel.
  */
-export function OngoingPlayer(eventPlayer: mod.Player): void {
-  if (!mod.IsPlayerValid(eventPlayer)) return;
-  getOrCreateServerPlayer(eventPlayer);
+export interface DamageHudConfig {
+  enabled: boolean;
+  showHitMarker: boolean;        // attacker-side confirmation that a hit registered
+
+  updateEveryNTicks: number;     // bar refresh throttle (3 => 10 Hz)
+  hideAfterTicks: number;        // keep the bar up this long after the queue drains
+
+  barAnchor: mod.UIAnchor;
+  barPosition: number[];         // [x, y] offset from barAnchor
+  barWidth: number;
+  barHeight: number;
+  backgroundColor: number[];
+  healthColor: number[];
+  pendingColor: number[];
+
+  hitMarkerTicks: number;        // how long the marker stays up after the last hit
+  hitMarkerSize: number;
+  hitMarkerColor: number[];
+}
+
+const DMG_HUD_DEFAULT_CONFIG: DamageHudConfig = {
+  enabled: false,
+  showHitMarker: true,
+
+  updateEveryNTicks: 3,
+  hideAfterTicks: 30,
+
+  barAnchor: mod.UIAnchor.BottomCenter,
+  barPosition: [0, 140],
+  barWidth: 240,
+  barHeight: 8,
+  backgroundColor: [0.1, 0.1, 0.1],
+  healthColor: [0.9, 0.9, 0.9],
+  pendingColor: [0.85, 0.2, 0.15],
+
+  hitMarkerTicks: 6,
+  hitMarkerSize: 18,
+  hitMarkerColor: [1, 1, 1],
+};
+
+class DmgHudBar {
+  public healthPx = -1;
+  public pendingPx = -1;
+  public visible = false;
+  public idleTicks = 0;
+
+  constructor(
+    public root: mod.UIWidget,
+    public health: mod.UIWidget,
+    public pending: mod.UIWidget
+  ) {}
 }
 
 /**
- * Called when player deploys (spawns).
+ * Reads queue state from a DamageSmoother and draws it. Holds no smoothing state of its own,
+ * so it can be switched on or off at any point in the match.
  */
-export function OnPlayerDeployed(eventPlayer: mod.Player): void {
-  if (!mod.IsPlayerValid(eventPlayer)) return;
-  const sp = getOrCreateServerPlayer(eventPlayer);
-  sp.isDeployed = true;
+export class DamageSmoothingHud {
+  private config: DamageHudConfig;
+  private smoother: DamageSmoother;
+  private tickCounter = 0;
+
+  private bars: { [playerId: number]: DmgHudBar } = {};
+  private watched: { [playerId: number]: boolean } = {};
+  private watchedIds: number[] = [];
+
+  private markers: { [playerId: number]: mod.UIWidget } = {};
+  private markerTicksLeft: { [playerId: number]: number } = {};
+  private markerIds: number[] = [];
+
+  constructor(smoother: DamageSmoother, config: Partial<DamageHudConfig> = {}) {
+    this.smoother = smoother;
+    this.config = { ...DMG_HUD_DEFAULT_CONFIG, ...config };
+  }
+
+  /** e.g. `damageHud.configure({ enabled: true, showHitMarker: false })` */
+  configure(changes: Partial<DamageHudConfig>): void {
+    this.config = { ...this.config, ...changes };
+    if (!this.config.enabled) this.hideAll();
+  }
+
+  getConfig(): Readonly<DamageHudConfig> {
+    return this.config;
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Widgets
+  --------------------------------------------------------------------------------------------- */
+
+  private createBar(sp: modlib.ServerPlayer): DmgHudBar {
+    const c = this.config;
+    const name = "dmgHud_" + sp.id;
+
+    const bar = modlib.widgets.create({
+      type: "Container",
+      name: name,
+      position: c.barPosition,
+      size: [c.barWidth, c.barHeight],
+      anchor: c.barAnchor,
+      visible: false,
+      bgColor: c.backgroundColor,
+      bgAlpha: 0.6,
+      playerId: sp.player,
+      children: [
+        {
+          type: "Container",
+          name: name + "_health",
+          position: [0, 0],
+          size: [c.barWidth, c.barHeight],
+          anchor: mod.UIAnchor.TopLeft,
+          bgColor: c.healthColor,
+          bgAlpha: 1,
+          playerId: sp.player,
+        },
+        {
+          type: "Container",
+          name: name + "_pending",
+          position: [c.barWidth, 0],
+          size: [0, c.barHeight],
+          anchor: mod.UIAnchor.TopLeft,
+          bgColor: c.pendingColor,
+          bgAlpha: 1,
+          playerId: sp.player,
+        },
+      ],
+    });
+
+    // keep the child handles; the update path then needs no FindUIWidgetWithName lookups
+    return new DmgHudBar(
+      bar.widget,
+      (bar.child(name + "_health") as modlib.UIHandle).widget,
+      (bar.child(name + "_pending") as modlib.UIHandle).widget
+    );
+  }
+
+  private createMarker(sp: modlib.ServerPlayer): mod.UIWidget {
+    const c = this.config;
+    const name = "dmgHit_" + sp.id;
+
+    // An outlined square at the crosshair; needs no string key, unlike a text marker
+    return modlib.widgets.create({
+      type: "Container",
+      name: name,
+      size: [c.hitMarkerSize, c.hitMarkerSize],
+      anchor: mod.UIAnchor.Center,
+      visible: false,
+      bgColor: c.hitMarkerColor,
+      bgAlpha: 1,
+      bgFill: mod.UIBgFill.OutlineThin,
+      playerId: sp.player,
+    }).widget;
+  }
+
+  private watch(sp: modlib.ServerPlayer): void {
+    let bar = this.bars[sp.id];
+    if (!bar) {
+      bar = this.createBar(sp);
+      this.bars[sp.id] = bar;
+    }
+    bar.idleTicks = 0;
+
+    if (this.watched[sp.id]) return;
+    this.watched[sp.id] = true;
+    this.watchedIds.push(sp.id);
+
+    // Draw straight away; waiting for the throttled refresh would show a stale bar for a frame
+    this.updateBar(sp.id, bar);
+  }
+
+  private unwatch(id: number): void {
+    if (!this.watched[id]) return;
+    this.watched[id] = false;
+
+    const idx = this.watchedIds.indexOf(id);
+    if (idx >= 0) this.watchedIds.splice(idx, 1);
+  }
+
+  private hideBar(id: number): void {
+    const bar = this.bars[id];
+    if (bar && bar.visible) {
+      mod.SetUIWidgetVisible(bar.root, false);
+      bar.visible = false;
+    }
+    this.unwatch(id);
+  }
+
+  private hideAll(): void {
+    for (let i = this.watchedIds.length - 1; i >= 0; i--) {
+      this.hideBar(this.watchedIds[i]);
+    }
+    for (let i = this.markerIds.length - 1; i >= 0; i--) {
+      const id = this.markerIds[i];
+      mod.SetUIWidgetVisible(this.markers[id], false);
+      this.markerTicksLeft[id] = 0;
+    }
+    this.markerIds = [];
+  }
+
+  private flashHitMarker(attackerSp: modlib.ServerPlayer): void {
+    const id = attackerSp.id;
+
+    // Already up: just extend it, no UI call
+    if ((this.markerTicksLeft[id] ?? 0) > 0) {
+      this.markerTicksLeft[id] = this.config.hitMarkerTicks;
+      return;
+    }
+
+    let marker = this.markers[id];
+    if (!marker) {
+      marker = this.createMarker(attackerSp);
+      this.markers[id] = marker;
+    }
+
+    mod.SetUIWidgetVisible(marker, true);
+    this.markerTicksLeft[id] = this.config.hitMarkerTicks;
+    this.markerIds.push(id);
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Live tick functions
+  --------------------------------------------------------------------------------------------- */
 
-  // Seed health cache immediately on deploy
-  dmgLastHealth[sp.id] = dmgGetCurrentHealth(eventPlayer);
+  tick(): void {
+    if (!this.config.enabled) return;
+    this.tickCounter++;
 
-  // Clear any stale queue from prior life
-  dmgQueued[sp.id] = 0;
-  dmgQueuedTicksLeft[sp.id] = 0;
-  dmgQueuedGiverObjId[sp.id] = 0;
-  dmgUnmarkActive(sp.id);
+    // Markers count down every tick so their duration doesn't depend on the bar throttle
+    for (let i = this.markerIds.length - 1; i >= 0; i--) {
+      const id = this.markerIds[i];
+      this.markerTicksLeft[id] -= 1;
+      if (this.markerTicksLeft[id] > 0) continue;
+
+      mod.SetUIWidgetVisible(this.markers[id], false);
+      this.markerIds.splice(i, 1);
+    }
+
+    const everyN = this.config.updateEveryNTicks;
+    if (everyN > 1 && (this.tickCounter % everyN) !== 0) return;
+
+    for (let i = this.watchedIds.length - 1; i >= 0; i--) {
+      const id = this.watchedIds[i];
+      const bar = this.bars[id];
+      if (bar) this.updateBar(id, bar);
+    }
+  }
+
+  private updateBar(id: number, bar: DmgHudBar): void {
+    const c = this.config;
+    const sp = modlib.players.get(id);
+
+    if (!sp || !sp.isDeployed || sp.isManDown || !mod.IsPlayerValid(sp.player) || !isPlayerAlive(sp.player)) {
+      this.hideBar(id);
+      return;
+    }
+
+    const queued = this.smoother.getQueuedDamage(sp.player);
+    if (queued <= 0) {
+      bar.idleTicks += c.updateEveryNTicks < 1 ? 1 : c.updateEveryNTicks;
+      if (bar.idleTicks >= c.hideAfterTicks) {
+        this.hideBar(id);
+        return;
+      }
+    } else {
+      bar.idleTicks = 0;
+    }
+
+    let health = dmgGetNormalizedHealth(sp.player);
+    if (health < 0) health = 0;
+    if (health > 1) health = 1;
+
+    // Queued damage has been healed back, so current health still contains it: the ghost
+    // segment is carved out of the right end of the health bar
+    const maxHealth = mod.GetSoldierState(sp.player, mod.SoldierStateNumber.MaxHealth);
+    let pending = maxHealth > 0 ? queued / maxHealth : 0;
+    if (pending > health) pending = health;
+
+    // Both segments come out of the same rounded total, so they always add up to current health
+    const pendingPx = mod.Floor(c.barWidth * pending);
+    const healthPx = mod.Floor(c.barWidth * health) - pendingPx;
+
+    if (healthPx !== bar.healthPx) {
+      mod.SetUIWidgetSize(bar.health, mod.CreateVector(healthPx, c.barHeight, 0));
+      // The ghost segment trails the health segment, so it moves whenever health does
+      mod.SetUIWidgetPosition(bar.pending, mod.CreateVector(healthPx, 0, 0));
+      bar.healthPx = healthPx;
+    }
+    if (pendingPx !== bar.pendingPx) {
+      mod.SetUIWidgetSize(bar.pending, mod.CreateVector(pendingPx, c.barHeight, 0));
+      bar.pendingPx = pendingPx;
+    }
+
+    if (!bar.visible) {
+      mod.SetUIWidgetVisible(bar.root, true);
+      bar.visible = true;
+    }
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Event handlers
+  --------------------------------------------------------------------------------------------- */
+
+  /** Call after DamageSmoother.onPlayerDamaged so the queue already includes this hit. */
+  onPlayerDamaged(victimSp: modlib.ServerPlayer, eventOtherPlayer: mod.Player): void {
+    if (!this.config.enabled) return;
+
+    // Re-applied steps are not new hits; the bar is already watched and the marker already shown
+    if (this.smoother.isReapplyingDamage(victimSp.player)) return;
+
+    if (this.smoother.getQueuedDamage(victimSp.player) > 0) {
+      this.watch(victimSp);
+    }
+
+    if (!this.config.showHitMarker) return;
+    if (!mod.IsPlayerValid(eventOtherPlayer) || mod.Equals(victimSp.player, eventOtherPlayer)) return;
+    if (mod.Equals(mod.GetTeam(victimSp.player), mod.GetTeam(eventOtherPlayer))) return;
+
+    this.flashHitMarker(modlib.players.track(eventOtherPlayer));
+  }
+
+  onPlayerDied(sp: modlib.ServerPlayer): void {
+    this.hideBar(sp.id);
+  }
+
+  onMandown(sp: modlib.ServerPlayer): void {
+    this.hideBar(sp.id);
+  }
+
+  onPlayerLeft(id: number): void {
+    this.unwatch(id);
+
+    // modlib.widgets destroys the player's bar and marker when they leave
+    delete this.bars[id];
+    delete this.markers[id];
+    if ((this.markerTicksLeft[id] ?? 0) > 0) {
+      const idx = this.markerIds.indexOf(id);
+      if (idx >= 0) this.markerIds.splice(idx, 1);
+    }
+    delete this.markerTicksLeft[id];
+  }
+}
+
+export const damageHud = new DamageSmoothingHud(damageSmoother);
+
+/* =================================================================================================
+   EVENT HANDLERS (REGISTERED WITH modlib.events / modlib.players BELOW)
+================================================================================================= */
+
+/**
+ * First sighting of a player (join, or already in the match when the script started).
+ */
+function dmgOnPlayerJoined(sp: modlib.ServerPlayer): void {
+  damageSmoother.onPlayerJoined(sp);
+}
+
+/**
+ * Called when player deploys (spawns). The registry has already set isDeployed.
+ */
+function dmgOnPlayerDeployed(sp: modlib.ServerPlayer): void {
+  damageSmoother.onPlayerDeployed(sp);
 }
 
 /**
  * Called when player dies.
  */
-export function OnPlayerDied(eventPlayer: mod.Player): void {
-  if (!mod.IsPlayerValid(eventPlayer)) return;
-  const sp = getOrCreateServerPlayer(eventPlayer);
-  sp.isDeployed = false;
-
-  // Clear queue so we don't keep processing dead players
-  dmgQueued[sp.id] = 0;
-  dmgQueuedTicksLeft[sp.id] = 0;
-  dmgQueuedGiverObjId[sp.id] = 0;
-  dmgUnmarkActive(sp.id);
+function dmgOnPlayerDied(sp: modlib.ServerPlayer): void {
+  damageSmoother.onPlayerDied(sp);
+  damageHud.onPlayerDied(sp);
+}
+
+/**
+ * Called when a player is forced into the man-down state.
+ */
+function dmgOnMandown(sp: modlib.ServerPlayer): void {
+  damageSmoother.onMandown(sp);
+  damageHud.onMandown(sp);
+}
+
+/**
+ * Called when a downed player is revived.
+ */
+function dmgOnRevived(sp: modlib.ServerPlayer): void {
+  damageSmoother.onRevived(sp);
 }
 
 /**
- * IMPORTANT:
- * This must be exported, and must include (damageType, weaponUnlock) per your SDK typing.
+ * Takes (damageType, weaponUnlock) per your SDK typing; the policies need both.
  */
-export function OnPlayerDamaged(
+function dmgOnPlayerDamaged(
   eventPlayer: mod.Player,       // victim
   eventOtherPlayer: mod.Player,  // attacker
-  _eventDamageType: mod.DamageType,
-  _eventWeaponUnlock: mod.WeaponUnlock
+  eventDamageType: mod.DamageType,
+  eventWeaponUnlock: mod.WeaponUnlock
 ): void {
   if (!isMatchLive()) return;
   if (!mod.IsPlayerValid(eventPlayer)) return;
   if (!isPlayerAlive(eventPlayer)) return;
 
-  const victimSp = getOrCreateServerPlayer(eventPlayer);
+  const victimSp = modlib.players.track(eventPlayer);
   if (!victimSp.isDeployed) return;
 
-  const victimId = victimSp.id;
-  const cur = dmgGetCurrentHealth(eventPlayer);
-
-  // Ignore our own re-applied damage
-  if (dmgIsReapplying[victimId]) {
-    dmgLastHealth[victimId] = cur;
-    return;
-  }
-
-  // Only smooth enemy damage (ignore self, invalid, or friendly)
-  if (!mod.IsPlayerValid(eventOtherPlayer) || mod.Equals(eventPlayer, eventOtherPlayer)) {
-    dmgLastHealth[victimId] = cur;
-    return;
-  }
-
-  if (mod.Equals(mod.GetTeam(eventPlayer), mod.GetTeam(eventOtherPlayer))) {
-    dmgLastHealth[victimId] = cur;
-    return;
-  }
-
-  const prev = dmgLastHealth[victimId];
-  if (prev === undefined) {
-    dmgLastHealth[victimId] = cur;
-    return;
-  }
-
-  const delta = prev - cur;
-  if (delta <= 0) {
-    dmgLastHealth[victimId] = cur;
-    return;
-  }
-
-  // Undo burst damage immediately
-  mod.Heal(eventPlayer, delta);
-
-  // Keep "previous" as the baseline so multiple hits in the same frame get collected
-  dmgLastHealth[victimId] = prev;
-
-  // Queue damage to be re-applied smoothly
-  const dist = dmgSpreadDistanceMeters(eventPlayer, eventOtherPlayer);
-  const baseTicks = dmgSpreadPickTicks(dist);
-  const spreadTicks = dmgSpreadApplyHealthDelayScale(baseTicks, dmgGetNormalizedHealth(eventPlayer));
+  damageSmoother.onPlayerDamaged(victimSp, eventOtherPlayer, eventDamageType, eventWeaponUnlock);
+  damageHud.onPlayerDamaged(victimSp, eventOtherPlayer);
+}
 
-  dmgQueued[victimId] = (dmgQueued[victimId] ?? 0) + delta;
-  dmgQueuedTicksLeft[victimId] = spreadTicks;
-  dmgQueuedGiverObjId[victimId] = mod.GetObjId(eventOtherPlayer);
+/**
+ * Called when a player leaves, before the registry drops the record.
+ */
+function dmgOnPlayerLeft(sp: modlib.ServerPlayer): void {
+  damageSmoother.onPlayerLeft(sp.id);
+  damageHud.onPlayerLeft(sp.id);
+}
 
-  dmgMarkActive(victimId);
+/**
+ * Match end: dump telemetry if it was collected.
+ */
+function dmgOnGameModeEnding(): void {
+  if (damageSmoother.getConfig().collectStats) damageSmoother.dumpStats();
 }
 
 /* =================================================================================================
    GLOBAL TICK
 ================================================================================================= */
 
-export function OngoingGlobal(): void {
-  gTickCounter++;
+function dmgOngoingGlobal(): void {
+  damageSmoother.tick();
+  damageHud.tick();
+}
 
-  // Cheap per-tick: only touches victims currently being smoothed
-  dmgSpreadProcessQueueTick();
+const DMG_EVENT_OPTIONS = { module: "DamageSmoothing" };
 
-  // Throttled scan: updates health cache every N ticks
-  if (HEALTH_CACHE_UPDATE_EVERY_N_TICKS <= 1 || (gTickCounter % HEALTH_CACHE_UPDATE_EVERY_N_TICKS) === 0) {
-    dmgSpreadUpdateHealthCacheTick();
-  }
-}
+modlib.events.on("OnPlayerDamaged", dmgOnPlayerDamaged, DMG_EVENT_OPTIONS);
+modlib.events.on("OnGameModeEnding", dmgOnGameModeEnding, DMG_EVENT_OPTIONS);
+modlib.events.on("OngoingGlobal", dmgOngoingGlobal, DMG_EVENT_OPTIONS);
+
+// Lets PerfThrottles' LoadGovernor (when pasted) stretch the health cache while the server is behind
+modlib.quality.registerKnob("DamageSmoothing", (level) => damageSmoother.setLoadLevel(level));
+
+modlib.players.on("join", dmgOnPlayerJoined);
+modlib.players.on("deploy", dmgOnPlayerDeployed);
+modlib.players.on("died", dmgOnPlayerDied);
+modlib.players.on("mandown", dmgOnMandown);
+modlib.players.on("revived", dmgOnRevived);
+modlib.players.on("leave", dmgOnPlayerLeft);
@@ -0,0 +1,439 @@
+/*
+  Event Exports (copy/paste block)
+  Battlefield 6 Portal
+  Author: mindflexor
+
+  Purpose:
+  A Portal script can export each SDK event handler only once, so two tools that both need
+  OngoingGlobal (or OnPlayerDied, ...) can't simply be pasted side by side. Paste this block once:
+  it defines every handler from mod.EventHandlerSignatures exactly once and forwards it to
+  modlib.events, where any number of tools register (see modlib/events.ts).
+
+  Key Notes:
+  - Generated from the EventHandlerSignatures list in types/index.d.ts (SDK 1.1.2.0).
+  - Your own mode logic registers the same way:
+      modlib.events.on("OnPlayerDied", (player, killer) => { ... }, { module: "MyMode" });
+  - Don't also `export function OngoingGlobal()` (or any other handler) elsewhere in the script.
+  - An event nobody registered for costs one lookup per call. The Ongoing* handlers run per
+    object per tick, so delete the exports for object types your mode never uses.
+*/
+
+import * as modlib from "modlib";
+
+/* =================================================================================================
+   ONGOING (EVERY TICK)
+================================================================================================= */
+
+export function OngoingGlobal(): void {
+  modlib.events.dispatch("OngoingGlobal");
+}
+
+export function OngoingAreaTrigger(eventAreaTrigger: mod.AreaTrigger): void {
+  modlib.events.dispatch("OngoingAreaTrigger", eventAreaTrigger);
+}
+
+export function OngoingCapturePoint(eventCapturePoint: mod.CapturePoint): void {
+  modlib.events.dispatch("OngoingCapturePoint", eventCapturePoint);
+}
+
+export function OngoingEmplacementSpawner(eventEmplacementSpawner: mod.EmplacementSpawner): void {
+  modlib.events.dispatch("OngoingEmplacementSpawner", eventEmplacementSpawner);
+}
+
+export function OngoingHQ(eventHQ: mod.HQ): void {
+  modlib.events.dispatch("OngoingHQ", eventHQ);
+}
+
+export function OngoingInteractPoint(eventInteractPoint: mod.InteractPoint): void {
+  modlib.events.dispatch("OngoingInteractPoint", eventInteractPoint);
+}
+
+export function OngoingLootSpawner(eventLootSpawner: mod.LootSpawner): void {
+  modlib.events.dispatch("OngoingLootSpawner", eventLootSpawner);
+}
+
+export function OngoingMCOM(eventMCOM: mod.MCOM): void {
+  modlib.events.dispatch("OngoingMCOM", eventMCOM);
+}
+
+export function OngoingPlayer(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OngoingPlayer", eventPlayer);
+}
+
+export function OngoingRingOfFire(eventRingOfFire: mod.RingOfFire): void {
+  modlib.events.dispatch("OngoingRingOfFire", eventRingOfFire);
+}
+
+export function OngoingSector(eventSector: mod.Sector): void {
+  modlib.events.dispatch("OngoingSector", eventSector);
+}
+
+export function OngoingSpawner(eventSpawner: mod.Spawner): void {
+  modlib.events.dispatch("OngoingSpawner", eventSpawner);
+}
+
+export function OngoingSpawnPoint(eventSpawnPoint: mod.SpawnPoint): void {
+  modlib.events.dispatch("OngoingSpawnPoint", eventSpawnPoint);
+}
+
+export function OngoingTeam(eventTeam: mod.Team): void {
+  modlib.events.dispatch("OngoingTeam", eventTeam);
+}
+
+export function OngoingVehicle(eventVehicle: mod.Vehicle): void {
+  modlib.events.dispatch("OngoingVehicle", eventVehicle);
+}
+
+export function OngoingVehicleSpawner(eventVehicleSpawner: mod.VehicleSpawner): void {
+  modlib.events.dispatch("OngoingVehicleSpawner", eventVehicleSpawner);
+}
+
+export function OngoingWaypointPath(eventWaypointPath: mod.WaypointPath): void {
+  modlib.events.dispatch("OngoingWaypointPath", eventWaypointPath);
+}
+
+export function OngoingWorldIcon(eventWorldIcon: mod.WorldIcon): void {
+  modlib.events.dispatch("OngoingWorldIcon", eventWorldIcon);
+}
+
+/* =================================================================================================
+   EVENTS
+================================================================================================= */
+
+// This will trigger when an AI Soldier stops trying to reach a destination.
+export function OnAIMoveToFailed(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnAIMoveToFailed", eventPlayer);
+}
+
+// This will trigger when an AI Soldier starts moving to a target location.
+export function OnAIMoveToRunning(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnAIMoveToRunning", eventPlayer);
+}
+
+// This will trigger when an AI Soldier reaches target location.
+export function OnAIMoveToSucceeded(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnAIMoveToSucceeded", eventPlayer);
+}
+
+// This will trigger when an AI Soldier parachute action is running.
+export function OnAIParachuteRunning(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnAIParachuteRunning", eventPlayer);
+}
+
+// This will trigger when an AI Soldier parachute action has succeeded.
+export function OnAIParachuteSucceeded(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnAIParachuteSucceeded", eventPlayer);
+}
+
+// This will trigger when an AI Soldier stops following a waypoint.
+export function OnAIWaypointIdleFailed(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnAIWaypointIdleFailed", eventPlayer);
+}
+
+// This will trigger when an AI Soldier starts following a waypoint.
+export function OnAIWaypointIdleRunning(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnAIWaypointIdleRunning", eventPlayer);
+}
+
+// This will trigger when an AI Soldier finishes following a waypoint.
+export function OnAIWaypointIdleSucceeded(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnAIWaypointIdleSucceeded", eventPlayer);
+}
+
+// This will trigger when a team takes control of a CapturePoint.
+export function OnCapturePointCaptured(eventCapturePoint: mod.CapturePoint): void {
+  modlib.events.dispatch("OnCapturePointCaptured", eventCapturePoint);
+}
+
+// This will trigger when a team begins capturing a CapturePoint.
+export function OnCapturePointCapturing(eventCapturePoint: mod.CapturePoint): void {
+  modlib.events.dispatch("OnCapturePointCapturing", eventCapturePoint);
+}
+
+// This will trigger when a team loses control of a CapturePoint.
+export function OnCapturePointLost(eventCapturePoint: mod.CapturePoint): void {
+  modlib.events.dispatch("OnCapturePointLost", eventCapturePoint);
+}
+
+// This will trigger when the gamemode ends.
+export function OnGameModeEnding(): void {
+  modlib.events.dispatch("OnGameModeEnding");
+}
+
+// This will trigger at the start of the gamemode.
+export function OnGameModeStarted(): void {
+  modlib.events.dispatch("OnGameModeStarted");
+}
+
+// This will trigger when a Player is forced into the mandown state.
+export function OnMandown(eventPlayer: mod.Player, eventOtherPlayer: mod.Player): void {
+  modlib.events.dispatch("OnMandown", eventPlayer, eventOtherPlayer);
+}
+
+// This will trigger when a MCOM is armed.
+export function OnMCOMArmed(eventMCOM: mod.MCOM): void {
+  modlib.events.dispatch("OnMCOMArmed", eventMCOM);
+}
+
+// This will trigger when a MCOM is defused.
+export function OnMCOMDefused(eventMCOM: mod.MCOM): void {
+  modlib.events.dispatch("OnMCOMDefused", eventMCOM);
+}
+
+// This will trigger when a MCOM detonates.
+export function OnMCOMDestroyed(eventMCOM: mod.MCOM): void {
+  modlib.events.dispatch("OnMCOMDestroyed", eventMCOM);
+}
+
+// This will trigger when a Player takes damage.
+export function OnPlayerDamaged(
+  eventPlayer: mod.Player,
+  eventOtherPlayer: mod.Player,
+  eventDamageType: mod.DamageType,
+  eventWeaponUnlock: mod.WeaponUnlock
+): void {
+  modlib.events.dispatch(
+    "OnPlayerDamaged",
+    eventPlayer,
+    eventOtherPlayer,
+    eventDamageType,
+    eventWeaponUnlock
+  );
+}
+
+// This will trigger whenever a Player deploys.
+export function OnPlayerDeployed(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnPlayerDeployed", eventPlayer);
+}
+
+// This will trigger whenever a Player dies.
+export function OnPlayerDied(
+  eventPlayer: mod.Player,
+  eventOtherPlayer: mod.Player,
+  eventDeathType: mod.DeathType,
+  eventWeaponUnlock: mod.WeaponUnlock
+): void {
+  modlib.events.dispatch(
+    "OnPlayerDied",
+    eventPlayer,
+    eventOtherPlayer,
+    eventDeathType,
+    eventWeaponUnlock
+  );
+}
+
+// This will trigger when a Player earns a kill against another Player.
+export function OnPlayerEarnedKill(
+  eventPlayer: mod.Player,
+  eventOtherPlayer: mod.Player,
+  eventDeathType: mod.DeathType,
+  eventWeaponUnlock: mod.WeaponUnlock
+): void {
+  modlib.events.dispatch(
+    "OnPlayerEarnedKill",
+    eventPlayer,
+    eventOtherPlayer,
+    eventDeathType,
+    eventWeaponUnlock
+  );
+}
+
+// This will trigger when a Player earns a kill assist.
+export function OnPlayerEarnedKillAssist(
+  eventPlayer: mod.Player,
+  eventOtherPlayer: mod.Player
+): void {
+  modlib.events.dispatch(
+    "OnPlayerEarnedKillAssist",
+    eventPlayer,
+    eventOtherPlayer
+  );
+}
+
+// This will trigger when a Player enters an AreaTrigger.
+export function OnPlayerEnterAreaTrigger(
+  eventPlayer: mod.Player,
+  eventAreaTrigger: mod.AreaTrigger
+): void {
+  modlib.events.dispatch(
+    "OnPlayerEnterAreaTrigger",
+    eventPlayer,
+    eventAreaTrigger
+  );
+}
+
+// This will trigger when a Player enters a CapturePoint capturing area.
+export function OnPlayerEnterCapturePoint(
+  eventPlayer: mod.Player,
+  eventCapturePoint: mod.CapturePoint
+): void {
+  modlib.events.dispatch(
+    "OnPlayerEnterCapturePoint",
+    eventPlayer,
+    eventCapturePoint
+  );
+}
+
+// This will trigger when a Player enters a Vehicle seat.
+export function OnPlayerEnterVehicle(eventPlayer: mod.Player, eventVehicle: mod.Vehicle): void {
+  modlib.events.dispatch("OnPlayerEnterVehicle", eventPlayer, eventVehicle);
+}
+
+// This will trigger when a Player enters a Vehicle seat.
+export function OnPlayerEnterVehicleSeat(
+  eventPlayer: mod.Player,
+  eventVehicle: mod.Vehicle,
+  eventSeat: mod.Object
+): void {
+  modlib.events.dispatch(
+    "OnPlayerEnterVehicleSeat",
+    eventPlayer,
+    eventVehicle,
+    eventSeat
+  );
+}
+
+// This will trigger when a Player exits an AreaTrigger.
+export function OnPlayerExitAreaTrigger(
+  eventPlayer: mod.Player,
+  eventAreaTrigger: mod.AreaTrigger
+): void {
+  modlib.events.dispatch(
+    "OnPlayerExitAreaTrigger",
+    eventPlayer,
+    eventAreaTrigger
+  );
+}
+
+// This will trigger when a Player exits a CapturePoint capturing area.
+export function OnPlayerExitCapturePoint(
+  eventPlayer: mod.Player,
+  eventCapturePoint: mod.CapturePoint
+): void {
+  modlib.events.dispatch(
+    "OnPlayerExitCapturePoint",
+    eventPlayer,
+    eventCapturePoint
+  );
+}
+
+// This will trigger when a Player exits a Vehicle.
+export function OnPlayerExitVehicle(eventPlayer: mod.Player, eventVehicle: mod.Vehicle): void {
+  modlib.events.dispatch("OnPlayerExitVehicle", eventPlayer, eventVehicle);
+}
+
+// This will trigger when a Player exits a Vehicle seat.
+export function OnPlayerExitVehicleSeat(
+  eventPlayer: mod.Player,
+  eventVehicle: mod.Vehicle,
+  eventSeat: mod.Object
+): void {
+  modlib.events.dispatch(
+    "OnPlayerExitVehicleSeat",
+    eventPlayer,
+    eventVehicle,
+    eventSeat
+  );
+}
+
+// This will trigger when a Player interacts with InteractPoint.
+export function OnPlayerInteract(
+  eventPlayer: mod.Player,
+  eventInteractPoint: mod.InteractPoint
+): void {
+  modlib.events.dispatch(
+    "OnPlayerInteract",
+    eventPlayer,
+    eventInteractPoint
+  );
+}
+
+// This will trigger when a Player joins the game.
+export function OnPlayerJoinGame(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnPlayerJoinGame", eventPlayer);
+}
+
+// This will trigger when any player leaves the game.
+export function OnPlayerLeaveGame(eventNumber: number): void {
+  modlib.events.dispatch("OnPlayerLeaveGame", eventNumber);
+}
+
+// This will trigger when a Player changes team.
+export function OnPlayerSwitchTeam(eventPlayer: mod.Player, eventTeam: mod.Team): void {
+  modlib.events.dispatch("OnPlayerSwitchTeam", eventPlayer, eventTeam);
+}
+
+// This will trigger when a Player interacts with an UI button.
+export function OnPlayerUIButtonEvent(
+  eventPlayer: mod.Player,
+  eventUIWidget: mod.UIWidget,
+  eventUIButtonEvent: mod.UIButtonEvent
+): void {
+  modlib.events.dispatch(
+    "OnPlayerUIButtonEvent",
+    eventPlayer,
+    eventUIWidget,
+    eventUIButtonEvent
+  );
+}
+
+// This will trigger when the Player dies and returns to the deploy screen.
+export function OnPlayerUndeploy(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnPlayerUndeploy", eventPlayer);
+}
+
+// This will trigger when a Raycast hits a target.
+export function OnRayCastHit(
+  eventPlayer: mod.Player,
+  eventPoint: mod.Vector,
+  eventNormal: mod.Vector
+): void {
+  modlib.events.dispatch(
+    "OnRayCastHit",
+    eventPlayer,
+    eventPoint,
+    eventNormal
+  );
+}
+
+// This will trigger when a Raycast is called and doesn't hit any target.
+export function OnRayCastMissed(eventPlayer: mod.Player): void {
+  modlib.events.dispatch("OnRayCastMissed", eventPlayer);
+}
+
+// This will trigger when a Player is revived by another Player.
+export function OnRevived(eventPlayer: mod.Player, eventOtherPlayer: mod.Player): void {
+  modlib.events.dispatch("OnRevived", eventPlayer, eventOtherPlayer);
+}
+
+// This will trigger when a RingOfFire changes size.
+export function OnRingOfFireZoneSizeChange(
+  eventRingOfFire: mod.RingOfFire,
+  eventNumber: number
+): void {
+  modlib.events.dispatch(
+    "OnRingOfFireZoneSizeChange",
+    eventRingOfFire,
+    eventNumber
+  );
+}
+
+// This will trigger when an AISpawner spawns an AI Soldier.
+export function OnSpawnerSpawned(eventPlayer: mod.Player, eventSpawner: mod.Spawner): void {
+  modlib.events.dispatch("OnSpawnerSpawned", eventPlayer, eventSpawner);
+}
+
+// This will trigger when the gamemode time limit has been reached.
+export function OnTimeLimitReached(): void {
+  modlib.events.dispatch("OnTimeLimitReached");
+}
+
+// This will trigger when a Vehicle is destroyed.
+export function OnVehicleDestroyed(eventVehicle: mod.Vehicle): void {
+  modlib.events.dispatch("OnVehicleDestroyed", eventVehicle);
+}
+
+// This will trigger when a Vehicle is called into the map.
+export function OnVehicleSpawned(eventVehicle: mod.Vehicle): void {
+  modlib.events.dispatch("OnVehicleSpawned", eventVehicle);
+}
@@ -5,56 +5,562 @@
 
   This matches the pattern used in Domination_ver_2.7_perf_hotfix_damage_smoothing_30hz.ts:
   - Keep critical stuff running every tick if it must (damage queue, etc.)
-  - Throttle expensive "live" updates using phaseTickCount + mod.Modulo(...)
+  - Throttle expensive "live" updates
+
+  Throttled work goes through a TickScheduler instead of hand-written
+  `mod.Modulo(phaseTickCount, ...)` blocks. Those blocks all share phaseTickCount, so every
+  bucket whose interval divides the current tick fires on the same frame — exactly the spike
+  the throttles are meant to avoid. The scheduler gives each task its own phase offset.
 
   Expected in your mode:
     - const TICK_RATE = 30;   // Portal treated as 30 ticks/sec
-    - let phaseTickCount = 0; // incremented once per tick while LIVE
+    - scheduler.tick() runs from OngoingGlobal while LIVE (modlib.matchLifecycle.isLive();
+      no phaseTickCount of your own needed), registered through modlib.events
+
+  LoadGovernor measures the real tick rate and, when the server falls behind, stretches the
+  scheduler's normal/low tasks, notifies subscribers (see loadGovernor.subscribe) and publishes
+  the level to modlib.quality, where other blocks (DamageSmoothing) lower optional quality.
+
+  Per-entity work (every player / capture point / vehicle) should not land on one tick either:
+  modlib.WorkSlicer processes 1/N of the entities per tick with a maximum staleness of N ticks.
 */
 
+import * as modlib from "modlib";
+
 // ---- Interval constants (same formulas as the Domination mode) ----
 const TICK_RATE = 30;   // Portal treated as 30 ticks/sec
 // Capture point / objective updates (Domination used "FAST" for point syncing + CP ownership/contested logic)
-const LIVE_CAPTURE_UPDATE_INTERVAL_TICKS = mod.Max(1, mod.Floor(TICK_RATE / 2)); // ~15 Hz @ 30 Hz
+const LIVE_CAPTURE_UPDATE_INTERVAL_TICKS = mod.Max(1, mod.Floor(TICK_RATE / 2)); // every 15 ticks = 2 Hz @ 30 Hz
 
 // UI / tickets / scoreboard updates (Domination used "SLOW" for SetUITime/ChangeTickets/SetUIScores/UpdateScoreboard)
-const LIVE_UI_SCORE_INTERVAL_TICKS = mod.Max(1, mod.Floor(TICK_RATE / 10)); // ~3.0 Hz @ 30 Hz
+const LIVE_UI_SCORE_INTERVAL_TICKS = mod.Max(1, mod.Floor(TICK_RATE / 10)); // every 3 ticks = 10 Hz @ 30 Hz
 
 // Sound effects / announcer / suspense audio (Domination used this for endgame suspense audio)
-const LIVE_SFX_INTERVAL_TICKS = mod.Max(1, mod.Floor(TICK_RATE / 3)); // ~10 Hz @ 30 Hz
+const LIVE_SFX_INTERVAL_TICKS = mod.Max(1, mod.Floor(TICK_RATE / 3)); // every 10 ticks = 3 Hz @ 30 Hz
+
+/* =================================================================================================
+   TICK SCHEDULER
+================================================================================================= */
+
+/**
+ * - "critical": always runs on its tick, ignores the budget
+ * - "high" / "normal" / "low": run in that order while the tick's budget lasts;
+ *   anything over budget is deferred to the next tick (never dropped)
+ */
+export type TaskPriority = "critical" | "high" | "normal" | "low";
+
+export interface TaskOptions {
+  name?: string;            // shows up in getStats()
+  priority?: TaskPriority;  // default "normal"
+  cost?: number;            // budget units this task uses per run (default 1)
+  phase?: number;           // fixed phase offset in ticks; omit to let the scheduler pick one
+}
+
+const TASK_PRIORITY_ORDER: { [p in TaskPriority]: number } = {
+  critical: 0,
+  high: 1,
+  normal: 2,
+  low: 3,
+};
+
+// A task deferred this many ticks in a row runs regardless of budget, so it can't starve
+const SCHED_MAX_DEFER_TICKS = 5;
+
+class ScheduledTask {
+  public deferredRuns = 0;
+  public deferStreak = 0;
+  public baseIntervalTicks: number;   // as registered; intervalTicks may be scaled by load
+  public pinnedPhase: number | undefined = undefined;
+
+  constructor(
+    public id: number,
+    public name: string,
+    public fn: () => void,
+    public priority: TaskPriority,
+    public cost: number,
+    public intervalTicks: number,  // 0 = one-shot
+    public phase: number,
+    public dueTick: number
+  ) {
+    this.baseIntervalTicks = intervalTicks;
+  }
+}
+
+// Only these priorities are stretched by setIntervalScale(); critical / high keep their rate
+function schedIsScalable(priority: TaskPriority): boolean {
+  return priority === "normal" || priority === "low";
+}
+
+function schedGcd(a: number, b: number): number {
+  while (b !== 0) {
+    const t = b;
+    b = a % b;
+    a = t;
+  }
+  return a;
+}
+
+export function hzToIntervalTicks(hz: number): number {
+  if (hz <= 0) return 1;
+  const ticks = mod.RoundToInteger(TICK_RATE / hz);
+  return ticks < 1 ? 1 : ticks;
+}
+
+/**
+ * Runs periodic and delayed tasks on the tick loop.
+ *
+ * Periodic tasks are registered by rate (`every(10, fn)`) and get a phase offset chosen so they
+ * collide with already-registered tasks as rarely as possible. A per-tick budget (in the task
+ * `cost` units) keeps low-priority work from piling onto a tick that is already heavy.
+ */
+export class TickScheduler {
+  private tickCount = 0;
+  private nextId = 1;
+  private tasks = new Map<number, ScheduledTask>();
+
+  private budgetPerTick: number;
+  private due: ScheduledTask[] = [];
+
+  private lastTickCost = 0;
+  private deferredTotal = 0;
+
+  private intervalScale = 1;
+
+  /** budgetPerTick: cost units allowed per tick for non-critical tasks (Infinity = no budget). */
+  constructor(budgetPerTick: number = Infinity) {
+    this.budgetPerTick = budgetPerTick;
+  }
+
+  setBudget(budgetPerTick: number): void {
+    this.budgetPerTick = budgetPerTick;
+  }
+
+  /** Runs `fn` at roughly `hz` times per second. Returns a task id for cancel(). */
+  every(hz: number, fn: () => void, options: TaskOptions = {}): number {
+    return this.everyTicks(hzToIntervalTicks(hz), fn, options);
+  }
+
+  /** Same as every(), with the interval given in ticks. */
+  everyTicks(intervalTicks: number, fn: () => void, options: TaskOptions = {}): number {
+    const base = intervalTicks < 1 ? 1 : mod.Floor(intervalTicks);
+    const id = this.add(fn, options, base, 0, 0);
+    const task = this.tasks.get(id) as ScheduledTask;
+
+    task.pinnedPhase = options.phase;
+    this.tasks.delete(id); // keep it out of its own phase search
+    this.setInterval(task, this.scaledInterval(task));
+    this.tasks.set(id, task);
+    return id;
+  }
+
+  /** Runs `fn` once, `seconds` from now. Returns a task id for cancel(). */
+  after(seconds: number, fn: () => void, options: TaskOptions = {}): number {
+    let ticks = mod.Ceiling(seconds * TICK_RATE);
+    if (ticks < 1) ticks = 1;
+    return this.add(fn, options, 0, 0, this.tickCount + ticks);
+  }
+
+  /** Returns false if the task already ran (one-shot) or was cancelled. */
+  cancel(id: number): boolean {
+    return this.tasks.delete(id);
+  }
+
+  isScheduled(id: number): boolean {
+    return this.tasks.has(id);
+  }
+
+  /** Changes a periodic task's rate; it keeps its id and gets a fresh phase for the new interval. */
+  setHz(id: number, hz: number): void {
+    const task = this.tasks.get(id);
+    if (!task || task.intervalTicks === 0) return;
+
+    task.baseIntervalTicks = hzToIntervalTicks(hz);
+    this.rescale(task);
+  }
+
+  /**
+   * Stretches every "normal" / "low" periodic task to `scale` times its registered interval
+   * (1 = as registered). Used by LoadGovernor when the server falls behind.
+   */
+  setIntervalScale(scale: number): void {
+    if (scale < 1) scale = 1;
+    if (scale === this.intervalScale) return;
+    this.intervalScale = scale;
+
+    this.tasks.forEach((task) => {
+      if (task.intervalTicks !== 0 && schedIsScalable(task.priority)) this.rescale(task);
+    });
+  }
+
+  getIntervalScale(): number {
+    return this.intervalScale;
+  }
+
+  getTickCount(): number {
+    return this.tickCount;
+  }
+
+  getStats(): {
+    tasks: number;
+    lastTickCost: number;
+    deferredTotal: number;
+    byTask: { name: string; intervalTicks: number; phase: number; deferredRuns: number }[];
+  } {
+    const byTask: { name: string; intervalTicks: number; phase: number; deferredRuns: number }[] = [];
+    this.tasks.forEach((t) => {
+      byTask.push({ name: t.name, intervalTicks: t.intervalTicks, phase: t.phase, deferredRuns: t.deferredRuns });
+    });
+    return { tasks: this.tasks.size, lastTickCost: this.lastTickCost, deferredTotal: this.deferredTotal, byTask };
+  }
+
+  private add(fn: () => void, options: TaskOptions, interval: number, phase: number, dueTick: number): number {
+    const id = this.nextId++;
+    const task = new ScheduledTask(
+      id,
+      options.name ?? "task" + id,
+      fn,
+      options.priority ?? "normal",
+      options.cost ?? 1,
+      interval,
+      phase,
+      dueTick
+    );
+    this.tasks.set(id, task);
+    return id;
+  }
+
+  private scaledInterval(task: ScheduledTask): number {
+    if (!schedIsScalable(task.priority)) return task.baseIntervalTicks;
+    return mod.RoundToInteger(task.baseIntervalTicks * this.intervalScale);
+  }
+
+  private rescale(task: ScheduledTask): void {
+    const interval = this.scaledInterval(task);
+    if (interval === task.intervalTicks) return;
 
-//Example of implementation of Throttles in ongoing global function
+    this.tasks.delete(task.id);
+    this.setInterval(task, interval);
+    this.tasks.set(task.id, task);
+  }
+
+  /** Sets interval + phase and moves the next run to the first tick matching the new phase. */
+  private setInterval(task: ScheduledTask, interval: number): void {
+    task.intervalTicks = interval;
+    task.phase =
+      task.pinnedPhase !== undefined ? mod.Modulo(task.pinnedPhase, interval) : this.pickPhase(interval);
+    task.dueTick = this.nextPhaseTick(task);
+  }
 
-let phaseTickCount: number = 0;
+  /**
+   * Two periodic tasks with intervals a and b collide only if their phases are congruent
+   * mod gcd(a, b), and then once every lcm(a, b) ticks. Pick the phase with the lowest
+   * expected cost of collisions with everything already registered.
+   */
+  private pickPhase(interval: number): number {
+    let bestPhase = 0;
+    let bestLoad = Infinity;
 
+    for (let p = 0; p < interval; p++) {
+      let load = 0;
+      this.tasks.forEach((t) => {
+        if (t.intervalTicks === 0) return;
+        const g = schedGcd(interval, t.intervalTicks);
+        if (mod.Modulo(p - t.phase, g) !== 0) return;
+        load += (t.cost * g) / t.intervalTicks;
+      });
 
-export function OngoingGlobal(): void {
-  phaseTickCount += 1;
-  if (mod.Modulo(phaseTickCount, LIVE_SFX_INTERVAL_TICKS) === 0) {
-      // UpdateYourGameModeLogic();
+      if (load < bestLoad) {
+        bestLoad = load;
+        bestPhase = p;
+      }
     }
 
+    return bestPhase;
   }
-// ---- Example usage (directly based on Domination) ----
-// Call this from your LIVE tick loop after phaseTickCount += 1:
+
+  /* ---------------------------------------------------------------------------------------------
+     Live tick
+  --------------------------------------------------------------------------------------------- */
+
+  tick(): void {
+    this.tickCount++;
+
+    const due = this.due;
+    due.length = 0;
+    this.tasks.forEach((t) => {
+      if (t.dueTick <= this.tickCount) due.push(t);
+    });
+    if (due.length === 0) {
+      this.lastTickCost = 0;
+      return;
+    }
+
+    due.sort((a, b) => TASK_PRIORITY_ORDER[a.priority] - TASK_PRIORITY_ORDER[b.priority] || a.id - b.id);
+
+    let spent = 0;
+    for (let i = 0; i < due.length; i++) {
+      const task = due[i];
+
+      // Cancelled by a task that ran earlier this tick
+      if (!this.tasks.has(task.id)) continue;
+
+      if (
+        task.priority !== "critical" &&
+        spent > 0 &&
+        spent + task.cost > this.budgetPerTick &&
+        task.deferStreak < SCHED_MAX_DEFER_TICKS
+      ) {
+        // Over budget: try again next tick. A periodic task then returns to its own phase.
+        task.dueTick = this.tickCount + 1;
+        task.deferStreak++;
+        task.deferredRuns++;
+        this.deferredTotal++;
+        continue;
+      }
+
+      spent += task.cost;
+      task.deferStreak = 0;
+
+      if (task.intervalTicks === 0) {
+        this.tasks.delete(task.id);
+      } else {
+        task.dueTick = this.nextPhaseTick(task);
+      }
+
+      task.fn();
+    }
+
+    this.lastTickCost = spent;
+  }
+
+  private nextPhaseTick(task: ScheduledTask): number {
+    let next = this.tickCount + 1;
+    const offset = mod.Modulo(next - task.phase, task.intervalTicks);
+    if (offset !== 0) next += task.intervalTicks - offset;
+    return next;
+  }
+}
+
+export const scheduler = new TickScheduler();
+
+/* =================================================================================================
+   LOAD GOVERNOR
+================================================================================================= */
+
+/**
+ * - "normal":   server keeps up with TICK_RATE
+ * - "strained": noticeably behind; non-critical work is stretched
+ * - "critical": far behind; stretch harder and drop optional quality
+ */
+export type LoadLevel = modlib.QualityLevel;
+
+export interface LoadGovernorConfig {
+  windowSec: number;            // measurement window (match seconds)
+  strainedBelowHz: number;
+  criticalBelowHz: number;
+  recoverMarginHz: number;      // must measure this far above a threshold to step back down
+  recoverAfterWindows: number;  // ...for this many windows in a row
+  intervalScale: { [level in LoadLevel]: number };  // applied to the scheduler's normal/low tasks
+}
+
+const LOAD_GOVERNOR_DEFAULT_CONFIG: LoadGovernorConfig = {
+  windowSec: 2,
+  strainedBelowHz: 27,
+  criticalBelowHz: 22,
+  recoverMarginHz: 2,
+  recoverAfterWindows: 3,
+  intervalScale: { normal: 1, strained: 2, critical: 3 },
+};
+
+const LOAD_LEVEL_ORDER: { [level in LoadLevel]: number } = {
+  normal: 0,
+  strained: 1,
+  critical: 2,
+};
+
+/**
+ * Estimates the real tick rate by counting ticks against mod.GetMatchTimeElapsed() and adjusts
+ * the scheduler when the server falls behind.
+ *
+ * Getting worse is acted on after one window. Getting better needs `recoverAfterWindows` good
+ * windows in a row and steps down one level at a time, so a single fast window can't flap it.
+ */
+export class LoadGovernor {
+  private config: LoadGovernorConfig;
+  private scheduler: TickScheduler | undefined;
+
+  private level: LoadLevel = "normal";
+  private estimatedHz = TICK_RATE;
+
+  private windowStartSec = -1;
+  private windowTicks = 0;
+  private goodWindows = 0;
+
+  private nextSubscriberId = 1;
+  private subscribers = new Map<number, (level: LoadLevel, previous: LoadLevel, hz: number) => void>();
+
+  constructor(scheduler?: TickScheduler, config: Partial<LoadGovernorConfig> = {}) {
+    this.scheduler = scheduler;
+    this.config = { ...LOAD_GOVERNOR_DEFAULT_CONFIG, ...config };
+  }
+
+  configure(changes: Partial<LoadGovernorConfig>): void {
+    this.config = { ...this.config, ...changes };
+    if (this.scheduler) this.scheduler.setIntervalScale(this.config.intervalScale[this.level]);
+  }
+
+  getLevel(): LoadLevel {
+    return this.level;
+  }
+
+  /** Tick rate measured over the last completed window. */
+  getEstimatedHz(): number {
+    return this.estimatedHz;
+  }
+
+  /**
+   * Called on every level change. Returns an id for unsubscribe().
+   * Optional quality in other blocks goes through modlib.quality instead (see registerQualityKnob).
+   */
+  subscribe(fn: (level: LoadLevel, previous: LoadLevel, hz: number) => void): number {
+    const id = this.nextSubscriberId++;
+    this.subscribers.set(id, fn);
+    return id;
+  }
+
+  unsubscribe(id: number): boolean {
+    return this.subscribers.delete(id);
+  }
+
+  /**
+   * Lowers optional quality while strained / critical. Same as modlib.quality.registerKnob: every
+   * level change is published there, so blocks that don't know about PerfThrottles (DamageSmoothing
+   * registers its health cache) follow the governor too.
+   */
+  registerQualityKnob(name: string, knob: modlib.QualityKnob): void {
+    modlib.quality.registerKnob(name, knob);
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Live tick
+  --------------------------------------------------------------------------------------------- */
+
+  tick(): void {
+    const now = mod.GetMatchTimeElapsed();
+
+    // Pre-round (or a clock reset): nothing to measure against yet
+    if (now <= 0 || now < this.windowStartSec) {
+      this.windowStartSec = -1;
+      return;
+    }
+    if (this.windowStartSec < 0) {
+      this.windowStartSec = now;
+      this.windowTicks = 0;
+      return;
+    }
+
+    this.windowTicks++;
+
+    const elapsed = now - this.windowStartSec;
+    if (elapsed < this.config.windowSec) return;
+
+    this.estimatedHz = this.windowTicks / elapsed;
+    this.windowStartSec = now;
+    this.windowTicks = 0;
+
+    this.evaluate(this.estimatedHz);
+  }
+
+  private evaluate(hz: number): void {
+    const c = this.config;
+
+    let measured: LoadLevel = "normal";
+    if (hz < c.criticalBelowHz) measured = "critical";
+    else if (hz < c.strainedBelowHz) measured = "strained";
+
+    if (LOAD_LEVEL_ORDER[measured] > LOAD_LEVEL_ORDER[this.level]) {
+      this.goodWindows = 0;
+      this.setLevel(measured, hz);
+      return;
+    }
+
+    // Recovering: the window has to clear the current level's threshold by the margin
+    const threshold = this.level === "critical" ? c.criticalBelowHz : c.strainedBelowHz;
+    if (this.level === "normal" || hz < threshold + c.recoverMarginHz) {
+      this.goodWindows = 0;
+      return;
+    }
+
+    this.goodWindows++;
+    if (this.goodWindows < c.recoverAfterWindows) return;
+
+    this.goodWindows = 0;
+    this.setLevel(this.level === "critical" ? "strained" : "normal", hz);
+  }
+
+  private setLevel(level: LoadLevel, hz: number): void {
+    const previous = this.level;
+    if (level === previous) return;
+    this.level = level;
+
+    if (this.scheduler) this.scheduler.setIntervalScale(this.config.intervalScale[level]);
+    modlib.quality.setLevel(level);
+    this.subscribers.forEach((fn) => fn(level, previous, hz));
+  }
+}
+
+export const loadGovernor = new LoadGovernor(scheduler);
+
+/* =================================================================================================
+   EXAMPLE (directly based on Domination)
+================================================================================================= */
+
+// Register once, e.g. from OnGameModeStarted. The three tasks land on different ticks.
 //
-//   // Throttle expensive live updates to prevent server lag / Hz drops.
-//   if (mod.Modulo(phaseTickCount, LIVE_CAPTURE_UPDATE_INTERVAL_TICKS) === 0) {
+//   scheduler.everyTicks(LIVE_CAPTURE_UPDATE_INTERVAL_TICKS, () => {
 //     SyncPlayersOnPointsFromEngine();
 //     Object.values(serverCapturePoints).forEach((capturePoint) => {
 //       capturePoint.setOwner(mod.GetCurrentOwnerTeam(capturePoint.capturePoint));
 //       UpdateCapturePointContestedState(capturePoint);
 //     });
-//   }
+//   }, { name: "capture", priority: "high", cost: 3 });
 //
-//   if (mod.Modulo(phaseTickCount, LIVE_SFX_INTERVAL_TICKS) === 0) {
+//   scheduler.everyTicks(LIVE_SFX_INTERVAL_TICKS, () => {
 //     UpdateEndgameSuspenseAudio(); // or any non-critical SFX/announcer logic
-//   }
+//   }, { name: "sfx", priority: "low" });
 //
-//   if (mod.Modulo(phaseTickCount, LIVE_UI_SCORE_INTERVAL_TICKS) === 0) {
+//   scheduler.everyTicks(LIVE_UI_SCORE_INTERVAL_TICKS, () => {
 //     SetUITime();
 //     ChangeTickets();
 //     SetUIScores();
 //     UpdateScoreboard();
-//   }
+//   }, { name: "ui", cost: 2 });
 //
+//   // Per-entity variant: instead of syncing every point on one tick every 15 ticks, sync a
+//   // slice every tick. Each point is still refreshed at least every 15 ticks.
+//   const capturePointSlicer = new modlib.WorkSlicer<mod.CapturePoint>(LIVE_CAPTURE_UPDATE_INTERVAL_TICKS);
+//   Object.values(serverCapturePoints).forEach((cp) => capturePointSlicer.add(cp.capturePoint));
+//
+//   scheduler.everyTicks(1, () => {
+//     capturePointSlicer.tick((point) => {
+//       SyncPlayersOnPointFromEngine(point);
+//       const capturePoint = serverCapturePoints[mod.GetObjId(point)];
+//       capturePoint.setOwner(mod.GetCurrentOwnerTeam(point));
+//       UpdateCapturePointContestedState(capturePoint);
+//     });
+//   }, { name: "capture-slice", priority: "high" });
+//
+//   // Lists rebuilt from the engine each time work with tickArray:
+//   //   playerSlicer.tickArray(modlib.ConvertArray(mod.AllPlayers()), (p) => UpdatePlayerHud(p));
+//
+//   // One-shot: announce overtime 5 seconds from now (cancel with scheduler.cancel(id))
+//   const id = scheduler.after(5, () => AnnounceOvertime(), { priority: "high" });
+
+// Registered with modlib.events (paste copy-paste/EventExports.ts once to forward SDK events)
+function perfOngoingGlobal(): void {
+  // Damage queues and other per-tick work stay outside the scheduler
+  loadGovernor.tick();
+  if (modlib.matchLifecycle.isLive()) scheduler.tick();
+}
+
+modlib.events.on("OngoingGlobal", perfOngoingGlobal, { module: "PerfThrottles" });
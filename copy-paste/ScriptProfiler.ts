@@ -0,0 +1,358 @@
+/*
+  Script Profiler (copy/paste block)
+  Battlefield 6 Portal (30 Hz)
+  Author: mindflexor
+
+  Purpose:
+  In a large mode it's hard to tell which part costs the most per tick. Portal gives scripts no
+  timer precise enough to measure a section, but nearly all real cost is in mod.* calls, so the
+  profiler counts those: per named section, per reporting interval, with a ranked report.
+
+  Key Notes:
+  - Opt-in. While disabled, profiler.section(name, fn) is just fn() behind one boolean check,
+    and the SDK is not wrapped.
+  - While enabled, the global `mod` is swapped for a counting proxy; every mod.* call is
+    attributed to the innermost open section ("(unsectioned)" if none).
+  - That needs `mod` to be a writable property of the global object. If the runtime provides it
+    as a lexical / namespace binding instead, enable() logs a one-line warning and the profiler
+    stays disabled (isEnabled() is false), rather than reporting zero calls.
+  - Nested sections: `calls` is inclusive (includes nested sections), `self` is not.
+  - Reports go to console.log every `reportEverySec` and at OnGameModeEnding, where a match
+    report (totals and the busiest interval of each section) follows the last interval's.
+  - Handlers are registered with modlib.events (order LAST, so the final report sees everything).
+*/
+
+import * as modlib from "modlib";
+
+const TICK_RATE = 30;
+
+/* =================================================================================================
+   PROFILER
+================================================================================================= */
+
+export interface ProfilerConfig {
+  reportEverySec: number;  // 0 = only report at the end / on demand
+  topSections: number;     // rows in each report
+  topCallsPerSection: number;
+}
+
+const PROFILER_DEFAULT_CONFIG: ProfilerConfig = {
+  reportEverySec: 30,
+  topSections: 10,
+  topCallsPerSection: 3,
+};
+
+const PROFILER_UNSECTIONED = "(unsectioned)";
+
+class ProfiledSection {
+  public runs = 0;
+  public calls = 0;      // inclusive
+  public selfCalls = 0;
+  public byFunction = new Map<string, number>();  // self calls by mod function
+
+  public totalRuns = 0;         // earlier intervals; add runs / calls for the whole match
+  public totalCalls = 0;
+  public peakCallsPerTick = 0;   // busiest finished interval
+
+  constructor(public name: string) {}
+
+  roll(intervalTicks: number): void {
+    this.totalRuns += this.runs;
+    this.totalCalls += this.calls;
+    const perTick = this.calls / (intervalTicks > 0 ? intervalTicks : 1);
+    if (perTick > this.peakCallsPerTick) this.peakCallsPerTick = perTick;
+
+    this.runs = 0;
+    this.calls = 0;
+    this.selfCalls = 0;
+    this.byFunction.clear();
+  }
+}
+
+export class ScriptProfiler {
+  private config: ProfilerConfig;
+  private enabled = false;
+
+  private realMod: typeof mod | undefined = undefined;
+  private wrappers = new Map<string, (...args: unknown[]) => unknown>();
+
+  private sections = new Map<string, ProfiledSection>();
+  private stack: ProfiledSection[] = [];
+
+  private intervalTicks = 0;
+  private totalTicks = 0;
+
+  constructor(config: Partial<ProfilerConfig> = {}) {
+    this.config = { ...PROFILER_DEFAULT_CONFIG, ...config };
+  }
+
+  configure(changes: Partial<ProfilerConfig>): void {
+    this.config = { ...this.config, ...changes };
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Starts counting. Call once, early (e.g. OnGameModeStarted), before sections run.
+   * If the runtime's `mod` can't be swapped, logs a warning and stays disabled.
+   */
+  enable(): void {
+    if (this.enabled) return;
+
+    const real = mod;
+
+    const handle = new Proxy(real as unknown as Record<string, unknown>, {
+      get: (target, key) => {
+        const value = target[key as string];
+        if (typeof key !== "string" || typeof value !== "function") return value;
+
+        // Cache one wrapper per function so hot paths don't allocate
+        let wrapped = this.wrappers.get(key);
+        if (!wrapped) {
+          const fn = value as (...args: unknown[]) => unknown;
+          wrapped = (...args: unknown[]) => {
+            this.countCall(key);
+            return fn.apply(target, args);
+          };
+          this.wrappers.set(key, wrapped);
+        }
+        return wrapped;
+      },
+    });
+
+    const g = globalThis as unknown as { mod?: unknown };
+    const hadGlobal = "mod" in g;
+    const previous = g.mod;
+    try {
+      g.mod = handle;
+    } catch {
+      // read-only global: caught by the check below
+    }
+
+    // `mod` may be a binding the global object doesn't back; then nothing would ever be counted
+    if ((mod as unknown) !== handle) {
+      try {
+        if (hadGlobal) g.mod = previous;
+        else delete g.mod;
+      } catch {}
+      this.wrappers.clear();
+      console.log("[Profiler] can't replace the global mod in this runtime; profiler stays disabled");
+      return;
+    }
+
+    this.realMod = real;
+    this.enabled = true;
+  }
+
+  /** Stops counting and puts the real SDK back. Collected numbers are kept. */
+  disable(): void {
+    if (!this.enabled) return;
+    this.enabled = false;
+
+    if (this.realMod) (globalThis as unknown as { mod: unknown }).mod = this.realMod;
+    this.realMod = undefined;
+    this.wrappers.clear();
+    this.stack = [];
+  }
+
+  /** Runs `fn` as a named section and returns its result. */
+  section<T>(name: string, fn: () => T): T {
+    if (!this.enabled) return fn();
+
+    this.begin(name);
+    try {
+      return fn();
+    } finally {
+      this.end();
+    }
+  }
+
+  /** For code that can't be wrapped in a callback; every begin() needs a matching end(). */
+  begin(name: string): void {
+    if (!this.enabled) return;
+
+    const section = this.getSection(name);
+    section.runs++;
+    this.stack.push(section);
+  }
+
+  end(): void {
+    if (!this.enabled) return;
+    this.stack.pop();
+  }
+
+  private getSection(name: string): ProfiledSection {
+    let section = this.sections.get(name);
+    if (!section) {
+      section = new ProfiledSection(name);
+      this.sections.set(name, section);
+    }
+    return section;
+  }
+
+  private countCall(fnName: string): void {
+    const stack = this.stack;
+    const innermost = stack.length > 0 ? stack[stack.length - 1] : this.getSection(PROFILER_UNSECTIONED);
+
+    for (let i = 0; i < stack.length; i++) stack[i].calls++;
+    if (stack.length === 0) innermost.calls++;
+
+    innermost.selfCalls++;
+    innermost.byFunction.set(fnName, (innermost.byFunction.get(fnName) ?? 0) + 1);
+  }
+
+  /* ---------------------------------------------------------------------------------------------
+     Reporting
+  --------------------------------------------------------------------------------------------- */
+
+  /** Call once per tick (OngoingGlobal). Prints and rolls the interval every reportEverySec. */
+  tick(): void {
+    if (!this.enabled) return;
+
+    this.intervalTicks++;
+    this.totalTicks++;
+
+    const everySec = this.config.reportEverySec;
+    if (everySec > 0 && this.intervalTicks >= everySec * TICK_RATE) {
+      this.printReport();
+    }
+  }
+
+  /** Ranked report for the current interval (most mod.* calls first). */
+  report(): string {
+    const ticks = this.intervalTicks > 0 ? this.intervalTicks : 1;
+    const rows: ProfiledSection[] = [];
+    this.sections.forEach((section) => {
+      if (section.runs > 0 || section.calls > 0) rows.push(section);
+    });
+    rows.sort((a, b) => b.calls - a.calls || (a.name < b.name ? -1 : 1));
+
+    const lines: string[] = [];
+    lines.push(
+      "[Profiler] " + this.intervalTicks + " ticks (" + (this.intervalTicks / TICK_RATE).toFixed(1) + " s), " +
+        this.totalTicks + " total"
+    );
+    lines.push("  #  section                    runs     calls  calls/tick      self  top calls");
+
+    const shown = rows.length < this.config.topSections ? rows.length : this.config.topSections;
+    for (let i = 0; i < shown; i++) {
+      const s = rows[i];
+      lines.push(
+        "  " + profPad(String(i + 1), 2) + " " +
+          profPadRight(s.name, 24) + " " +
+          profPad(String(s.runs), 6) + " " +
+          profPad(String(s.calls), 9) + " " +
+          profPad((s.calls / ticks).toFixed(1), 11) + " " +
+          profPad(String(s.selfCalls), 9) + "  " +
+          this.topCalls(s)
+      );
+    }
+    if (rows.length > shown) lines.push("  ... " + (rows.length - shown) + " more");
+
+    return lines.join("\n");
+  }
+
+  /** Prints report() and starts a new interval. Called automatically from tick() and OnGameModeEnding. */
+  printReport(): void {
+    console.log(this.report());
+    this.sections.forEach((section) => section.roll(this.intervalTicks));
+    this.intervalTicks = 0;
+  }
+
+  /** Ranked report for the whole match so far: totals, average and peak interval calls/tick. */
+  matchReport(): string {
+    const ticks = this.totalTicks > 0 ? this.totalTicks : 1;
+    const rows: ProfiledSection[] = [];
+    this.sections.forEach((section) => {
+      if (section.totalRuns + section.runs > 0 || section.totalCalls + section.calls > 0) rows.push(section);
+    });
+    const calls = (s: ProfiledSection) => s.totalCalls + s.calls;
+    rows.sort((a, b) => calls(b) - calls(a) || (a.name < b.name ? -1 : 1));
+
+    const lines: string[] = [];
+    lines.push("[Profiler] match: " + this.totalTicks + " ticks (" + (this.totalTicks / TICK_RATE).toFixed(1) + " s)");
+    lines.push("  #  section                    runs     calls  calls/tick  peak/tick");
+
+    const shown = rows.length < this.config.topSections ? rows.length : this.config.topSections;
+    for (let i = 0; i < shown; i++) {
+      const s = rows[i];
+      const current = s.calls / (this.intervalTicks > 0 ? this.intervalTicks : 1);
+      const peak = current > s.peakCallsPerTick ? current : s.peakCallsPerTick;
+      lines.push(
+        "  " + profPad(String(i + 1), 2) + " " +
+          profPadRight(s.name, 24) + " " +
+          profPad(String(s.totalRuns + s.runs), 6) + " " +
+          profPad(String(calls(s)), 9) + " " +
+          profPad((calls(s) / ticks).toFixed(1), 11) + " " +
+          profPad(peak.toFixed(1), 10)
+      );
+    }
+    if (rows.length > shown) lines.push("  ... " + (rows.length - shown) + " more");
+
+    return lines.join("\n");
+  }
+
+  private topCalls(section: ProfiledSection): string {
+    const entries: [string, number][] = [];
+    section.byFunction.forEach((count, fnName) => entries.push([fnName, count]));
+    entries.sort((a, b) => b[1] - a[1]);
+
+    const parts: string[] = [];
+    for (let i = 0; i < entries.length && i < this.config.topCallsPerSection; i++) {
+      parts.push(entries[i][0] + " " + entries[i][1]);
+    }
+    return parts.join(", ");
+  }
+}
+
+function profPad(text: string, width: number): string {
+  while (text.length < width) text = " " + text;
+  return text;
+}
+
+function profPadRight(text: string, width: number): string {
+  while (text.length < width) text = text + " ";
+  return text;
+}
+
+export const profiler = new ScriptProfiler();
+
+/* =================================================================================================
+   EXAMPLE
+================================================================================================= */
+
+// OnGameModeStarted:
+//   profiler.enable();   // leave this line out (or comment it) for release builds
+//
+// Wrap the parts you want to compare:
+//   profiler.section("damage-queue", () => damageSmoother.tick());
+//   scheduler.every(2, () => profiler.section("capture-sync", SyncCapturePoints), { name: "capture" });
+//   scheduler.every(10, () => profiler.section("ui-refresh", UpdateScoreUI), { name: "ui" });
+//
+// Sample output:
+//   [Profiler] 900 ticks (30.0 s), 900 total
+//     #  section                    runs     calls  calls/tick      self  top calls
+//      1 damage-queue                900      5412         6.0      5412  GetSoldierState 3600, ...
+//      2 capture-sync                 60      1840         2.0      1840  GetCurrentOwnerTeam 300, ...
+//
+// At OnGameModeEnding the last interval is followed by the whole match:
+//   [Profiler] match: 54000 ticks (1800.0 s)
+//     #  section                    runs     calls  calls/tick  peak/tick
+//      1 damage-queue              54000    298440         5.5       11.2
+
+function profOngoingGlobal(): void {
+  profiler.tick();
+}
+
+function profOnGameModeEnding(): void {
+  if (!profiler.isEnabled()) return;
+  profiler.printReport();
+  console.log(profiler.matchReport());
+}
+
+const PROFILER_EVENT_OPTIONS = { module: "ScriptProfiler", order: modlib.EVENT_ORDER_LAST };
+
+modlib.events.on("OngoingGlobal", profOngoingGlobal, PROFILER_EVENT_OPTIONS);
+modlib.events.on("OnGameModeEnding", profOnGameModeEnding, PROFILER_EVENT_OPTIONS);
@@ -0,0 +1,205 @@
+//-----------------------------------------------------------------------------------------------//
+// Button callbacks: one OnPlayerUIButtonEvent router instead of a switch on widget names.
+//
+// ParseUI buttons take handlers directly, and the events they need are enabled for you:
+//   ParseUI({ type: 'Container', menu: true, playerId: player, size: [400, 300], children: [
+//       { type: 'Button', size: [200, 50], onClick: (p) => Respawn(p), onHover: (p, w, on) => Highlight(w, on) },
+//   ] });
+//
+// A node with `menu: true` and a player is a menu: while any of a player's menus is open,
+// mod.EnableUIInputMode is on for that player. Close one with buttons.setMenuVisible(widget, false)
+// or delete it with modlib.widgets.destroy(widget), which also releases every handler in the
+// subtree. Handlers and menus of a player that leaves are dropped.
+//
+// Everything is keyed by the widget's name (mod.GetUIWidgetName), not by mod.UIWidget identity,
+// which the SDK doesn't promise. ParseUI gives every widget a name no other registered widget has
+// (see widgets.ts), so every player can get a copy of the same menu. A widget bound with another's
+// name replaces its binding; one without a name gets a generated one.
+//-----------------------------------------------------------------------------------------------//
+
+import { EVENT_ORDER_LAST, events } from './events';
+
+export type UIButtonHandler = (player: mod.Player, widget: mod.UIWidget) => void;
+export type UIButtonToggleHandler = (player: mod.Player, widget: mod.UIWidget, active: boolean) => void;
+
+export interface UIButtonHandlers {
+    onClick?: UIButtonHandler; // ButtonUp
+    onHover?: UIButtonToggleHandler; // HoverIn / HoverOut
+    onFocus?: UIButtonToggleHandler; // FocusIn / FocusOut
+}
+
+export interface UIButtonScope {
+    player?: mod.Player; // shown to this player only (directly or through a parent)
+    team?: mod.Team;
+}
+
+class UIButtonBinding {
+    constructor(
+        public widget: mod.UIWidget,
+        public name: string, // key in UIButtonRouter.byName
+        public ownerId: number, // player ObjId, -1 = none
+        public teamId: number, // -1 = none
+        public handlers: UIButtonHandlers
+    ) {}
+}
+
+class UIMenu {
+    constructor(public name: string, public player: mod.Player, public playerId: number, public open: boolean) {}
+}
+
+export function hasUIButtonHandlers(handlers: UIButtonHandlers): boolean {
+    return handlers.onClick !== undefined || handlers.onHover !== undefined || handlers.onFocus !== undefined;
+}
+
+export class UIButtonRouter {
+    private nextName = 1;
+    private byName = new Map<string, UIButtonBinding>(); // widget name -> binding
+
+    private menus = new Map<string, UIMenu>(); // widget name -> menu
+    private openMenus = new Map<number, number>(); // player ObjId -> open menu count
+
+    // Routes the widget's events to `handlers` and enables the ones they need. Binding a widget
+    // again replaces its handlers.
+    bind(widget: mod.UIWidget, handlers: UIButtonHandlers, scope: UIButtonScope = {}) {
+        let name = mod.GetUIWidgetName(widget);
+        if (name === '') {
+            name = `__uibutton${this.nextName++}`;
+            mod.SetUIWidgetName(widget, name);
+        }
+        this.releaseName(name);
+        const binding = new UIButtonBinding(
+            widget,
+            name,
+            scope.player ? mod.GetObjId(scope.player) : -1,
+            scope.team ? mod.GetObjId(scope.team) : -1,
+            { onClick: handlers.onClick, onHover: handlers.onHover, onFocus: handlers.onFocus }
+        );
+        this.byName.set(name, binding);
+        this.enableEvents(binding);
+    }
+
+    // Swaps the handlers of a bound widget, e.g. for fresh closures on every render.
+    setHandlers(widget: mod.UIWidget, handlers: UIButtonHandlers) {
+        const binding = this.byName.get(mod.GetUIWidgetName(widget));
+        if (!binding) return;
+        const before = binding.handlers;
+        binding.handlers = { onClick: handlers.onClick, onHover: handlers.onHover, onFocus: handlers.onFocus };
+        if (!before.onClick !== !handlers.onClick || !before.onHover !== !handlers.onHover || !before.onFocus !== !handlers.onFocus) {
+            this.enableEvents(binding);
+        }
+    }
+
+    isBound(widget: mod.UIWidget): boolean {
+        return this.byName.has(mod.GetUIWidgetName(widget));
+    }
+
+    count(): number {
+        return this.byName.size;
+    }
+
+    // Forgets the widget's handlers (and menu) without touching the widget; modlib.widgets.destroy()
+    // does this for a whole subtree.
+    release(widget: mod.UIWidget): boolean {
+        return this.releaseName(mod.GetUIWidgetName(widget));
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Menus
+    //-------------------------------------------------------------------------------------------//
+
+    addMenu(widget: mod.UIWidget, player: mod.Player, open: boolean) {
+        const name = mod.GetUIWidgetName(widget);
+        this.removeMenu(name);
+        const menu = new UIMenu(name, player, mod.GetObjId(player), false);
+        this.menus.set(name, menu);
+        if (open) this.setMenuOpen(widget, true);
+    }
+
+    // Tracks a menu being shown or hidden; input mode follows the player's open menu count.
+    setMenuOpen(widget: mod.UIWidget, open: boolean) {
+        this.setNamedMenuOpen(mod.GetUIWidgetName(widget), open);
+    }
+
+    // mod.SetUIWidgetVisible for a menu, keeping input mode in step.
+    setMenuVisible(widget: mod.UIWidget, visible: boolean) {
+        mod.SetUIWidgetVisible(widget, visible);
+        this.setMenuOpen(widget, visible);
+    }
+
+    isMenuOpen(player: mod.Player): boolean {
+        return this.openMenus.has(mod.GetObjId(player));
+    }
+
+    private setNamedMenuOpen(name: string, open: boolean) {
+        const menu = this.menus.get(name);
+        if (!menu || menu.open === open) return;
+        menu.open = open;
+        const before = this.openMenus.get(menu.playerId) ?? 0;
+        const after = before + (open ? 1 : -1);
+        if (after > 0) this.openMenus.set(menu.playerId, after);
+        else this.openMenus.delete(menu.playerId);
+        if (before === 0 && after > 0) mod.EnableUIInputMode(true, menu.player);
+        else if (before > 0 && after === 0 && mod.IsPlayerValid(menu.player)) mod.EnableUIInputMode(false, menu.player);
+    }
+
+    private removeMenu(name: string) {
+        if (!this.menus.has(name)) return;
+        this.setNamedMenuOpen(name, false);
+        this.menus.delete(name);
+    }
+
+    private releaseName(name: string): boolean {
+        this.removeMenu(name);
+        return this.byName.delete(name);
+    }
+
+    private enableEvents(binding: UIButtonBinding) {
+        const h = binding.handlers;
+        mod.EnableUIButtonEvent(binding.widget, mod.UIButtonEvent.ButtonUp, h.onClick !== undefined);
+        mod.EnableUIButtonEvent(binding.widget, mod.UIButtonEvent.HoverIn, h.onHover !== undefined);
+        mod.EnableUIButtonEvent(binding.widget, mod.UIButtonEvent.HoverOut, h.onHover !== undefined);
+        mod.EnableUIButtonEvent(binding.widget, mod.UIButtonEvent.FocusIn, h.onFocus !== undefined);
+        mod.EnableUIButtonEvent(binding.widget, mod.UIButtonEvent.FocusOut, h.onFocus !== undefined);
+    }
+
+    // Events from players the widget isn't shown to are ignored.
+    private find(player: mod.Player, widget: mod.UIWidget): UIButtonBinding | undefined {
+        const binding = this.byName.get(mod.GetUIWidgetName(widget));
+        if (!binding) return undefined;
+        if (binding.ownerId >= 0 && binding.ownerId !== mod.GetObjId(player)) return undefined;
+        if (binding.teamId >= 0 && binding.teamId !== mod.GetObjId(mod.GetTeam(player))) return undefined;
+        return binding;
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Event forwarding
+    //-------------------------------------------------------------------------------------------//
+
+    onPlayerUIButtonEvent(player: mod.Player, widget: mod.UIWidget, event: mod.UIButtonEvent) {
+        const binding = this.find(player, widget);
+        if (!binding) return;
+        const h = binding.handlers;
+        if (event === mod.UIButtonEvent.ButtonUp) {
+            if (h.onClick) h.onClick(player, widget);
+        } else if (event === mod.UIButtonEvent.HoverIn || event === mod.UIButtonEvent.HoverOut) {
+            if (h.onHover) h.onHover(player, widget, event === mod.UIButtonEvent.HoverIn);
+        } else if (event === mod.UIButtonEvent.FocusIn || event === mod.UIButtonEvent.FocusOut) {
+            if (h.onFocus) h.onFocus(player, widget, event === mod.UIButtonEvent.FocusIn);
+        }
+    }
+
+    onPlayerLeaveGame(playerObjId: number) {
+        for (const binding of Array.from(this.byName.values())) {
+            if (binding.ownerId === playerObjId) this.byName.delete(binding.name);
+        }
+        for (const menu of Array.from(this.menus.values())) {
+            if (menu.playerId === playerObjId) this.menus.delete(menu.name);
+        }
+        this.openMenus.delete(playerObjId);
+    }
+}
+
+export const buttons = new UIButtonRouter();
+
+events.on('OnPlayerUIButtonEvent', (player, widget, event) => buttons.onPlayerUIButtonEvent(player, widget, event), { module: 'UIButtons' });
+events.on('OnPlayerLeaveGame', (objId) => buttons.onPlayerLeaveGame(objId), { module: 'UIButtons', order: EVENT_ORDER_LAST });
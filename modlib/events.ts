@@ -0,0 +1,139 @@
+//-----------------------------------------------------------------------------------------------//
+// Event router: a Portal script can export each event handler (OngoingGlobal, OnPlayerDied, ...)
+// only once, so utilities register here instead and copy-paste/EventExports.ts forwards every
+// SDK event to the router.
+//
+//   modlib.events.on('OnPlayerDied', (player, killer, deathType, weapon) => { ... }, { module: 'MyTool' });
+//
+// Handlers run in ascending `order`, then registration order. Each handler is isolated: one that
+// throws is logged and the rest still run.
+//-----------------------------------------------------------------------------------------------//
+
+export type ModEventName = keyof typeof mod.EventHandlerSignatures;
+export type ModEventHandler<E extends ModEventName> = (typeof mod.EventHandlerSignatures)[E];
+export type ModEventArgs<E extends ModEventName> = Parameters<ModEventHandler<E>>;
+
+// Every SDK event at runtime (mod.EventHandlerSignatures only exists as a type); the mapped type
+// makes the compiler flag a missing or misspelled name.
+const __modEventNames: { [E in ModEventName]: true } = {
+    OngoingGlobal: true, OngoingAreaTrigger: true, OngoingCapturePoint: true,
+    OngoingEmplacementSpawner: true, OngoingHQ: true, OngoingInteractPoint: true,
+    OngoingLootSpawner: true, OngoingMCOM: true, OngoingPlayer: true, OngoingRingOfFire: true,
+    OngoingSector: true, OngoingSpawner: true, OngoingSpawnPoint: true, OngoingTeam: true,
+    OngoingVehicle: true, OngoingVehicleSpawner: true, OngoingWaypointPath: true,
+    OngoingWorldIcon: true, OnAIMoveToFailed: true, OnAIMoveToRunning: true, OnAIMoveToSucceeded: true,
+    OnAIParachuteRunning: true, OnAIParachuteSucceeded: true, OnAIWaypointIdleFailed: true,
+    OnAIWaypointIdleRunning: true, OnAIWaypointIdleSucceeded: true, OnCapturePointCaptured: true,
+    OnCapturePointCapturing: true, OnCapturePointLost: true, OnGameModeEnding: true,
+    OnGameModeStarted: true, OnMandown: true, OnMCOMArmed: true, OnMCOMDefused: true,
+    OnMCOMDestroyed: true, OnPlayerDamaged: true, OnPlayerDeployed: true, OnPlayerDied: true,
+    OnPlayerEarnedKill: true, OnPlayerEarnedKillAssist: true, OnPlayerEnterAreaTrigger: true,
+    OnPlayerEnterCapturePoint: true, OnPlayerEnterVehicle: true, OnPlayerEnterVehicleSeat: true,
+    OnPlayerExitAreaTrigger: true, OnPlayerExitCapturePoint: true, OnPlayerExitVehicle: true,
+    OnPlayerExitVehicleSeat: true, OnPlayerInteract: true, OnPlayerJoinGame: true,
+    OnPlayerLeaveGame: true, OnPlayerSwitchTeam: true, OnPlayerUIButtonEvent: true,
+    OnPlayerUndeploy: true, OnRayCastHit: true, OnRayCastMissed: true, OnRevived: true,
+    OnRingOfFireZoneSizeChange: true, OnSpawnerSpawned: true, OnTimeLimitReached: true,
+    OnVehicleDestroyed: true, OnVehicleSpawned: true,
+};
+
+export function isModEventName(name: string): name is ModEventName {
+    return Object.prototype.hasOwnProperty.call(__modEventNames, name);
+}
+
+// Conventional orders; any number works.
+export const EVENT_ORDER_FIRST = -100; // state other handlers read (lifecycle, registries)
+export const EVENT_ORDER_DEFAULT = 0;
+export const EVENT_ORDER_LAST = 100; // reporting, cleanup
+
+export interface EventHandlerOptions {
+    module?: string; // groups handlers for setModuleEnabled(); also shown in error logs
+    order?: number;
+    enabled?: boolean;
+}
+
+class RoutedHandler {
+    constructor(
+        public id: number,
+        public event: string,
+        public fn: (...args: any[]) => void,
+        public module: string,
+        public order: number,
+        public enabled: boolean
+    ) {}
+}
+
+export class EventRouter {
+    private nextId = 1;
+    private handlers: { [event: string]: RoutedHandler[] } = {};
+    private byId = new Map<number, RoutedHandler>();
+    private disabledModules = new Set<string>();
+
+    on<E extends ModEventName>(event: E, fn: ModEventHandler<E>, options: EventHandlerOptions = {}): number {
+        const handler = new RoutedHandler(
+            this.nextId++,
+            event,
+            fn as (...args: any[]) => void,
+            options.module ?? '',
+            options.order ?? EVENT_ORDER_DEFAULT,
+            options.enabled ?? true
+        );
+
+        // copy on write, so a dispatch in progress keeps iterating the list it started with
+        const list = (this.handlers[event] ?? []).slice();
+        // stable insert: after every handler with the same or lower order
+        let i = list.length;
+        while (i > 0 && list[i - 1].order > handler.order) i--;
+        list.splice(i, 0, handler);
+        this.handlers[event] = list;
+
+        this.byId.set(handler.id, handler);
+        return handler.id;
+    }
+
+    off(id: number): boolean {
+        const handler = this.byId.get(id);
+        if (!handler) return false;
+        this.byId.delete(id);
+
+        this.handlers[handler.event] = this.handlers[handler.event].filter((h) => h !== handler);
+        return true;
+    }
+
+    setEnabled(id: number, enabled: boolean) {
+        const handler = this.byId.get(id);
+        if (handler) handler.enabled = enabled;
+    }
+
+    // Turns every handler registered with { module } on or off, e.g. setModuleEnabled('DamageSmoothing', false).
+    setModuleEnabled(module: string, enabled: boolean) {
+        if (enabled) this.disabledModules.delete(module);
+        else this.disabledModules.add(module);
+    }
+
+    isModuleEnabled(module: string): boolean {
+        return !this.disabledModules.has(module);
+    }
+
+    hasHandlers(event: ModEventName): boolean {
+        const list = this.handlers[event];
+        return list !== undefined && list.length > 0;
+    }
+
+    dispatch<E extends ModEventName>(event: E, ...args: ModEventArgs<E>) {
+        const list = this.handlers[event];
+        if (!list || list.length === 0) return;
+
+        for (let i = 0; i < list.length; i++) {
+            const handler = list[i];
+            if (!handler.enabled || this.disabledModules.has(handler.module)) continue;
+            try {
+                handler.fn(...args);
+            } catch (e) {
+                console.error(`${event} handler failed (${handler.module || 'handler ' + handler.id}): ${e}`);
+            }
+        }
+    }
+}
+
+export const events = new EventRouter();
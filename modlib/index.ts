@@ -1,4 +1,20 @@
-// export * from './store';
+export * from './buttons';
+export * from './events';
+export * from './lifecycle';
+export * from './notifications';
+export * from './players';
+export * from './quality';
+export * from './rules';
+export * from './store';
+export * from './timers';
+export * from './ui';
+export * from './widgets';
+
+import { UIButtonHandler, UIButtonToggleHandler, buttons, hasUIButtonHandlers } from './buttons';
+import { EVENT_ORDER_LAST, events } from './events';
+import { NotificationOptions, notifications } from './notifications';
+import { timers } from './timers';
+import { widgets } from './widgets';
 
 export function Concat(s1: string, s2: string) {
     return s1 + s2;
@@ -99,6 +115,10 @@ export function Equals(a: any, b: any) {
     return mod.Equals(a, b);
 }
 
+/**
+ * Waits up to `delay` seconds *while* cond() holds, in 10 coarse steps.
+ * @deprecated Use modlib.timers.waitUntil, which waits *until* cond() holds.
+ */
 export async function WaitUntil(delay: number, cond: () => boolean) {
     // complete rush hack. this will likely wait way too long and other problems.
     let deltaCount = 10;
@@ -109,25 +129,108 @@ export async function WaitUntil(delay: number, cond: () => boolean) {
     }
 }
 
+// Which transitions of the condition fire update().
+export type ConditionTrigger = 'rising' | 'falling' | 'both';
+export type ConditionEdge = 'rising' | 'falling';
+
+// All durations count update() calls, so call update() once per tick (Ongoing* handlers). The
+// *Sec variants are converted with timers.secondsToTicks (30 Hz) and win over the tick values.
+export interface ConditionOptions {
+    trigger: ConditionTrigger;
+    holdTicks: number; // fire only once the new value has held this long; 0 = on the edge itself
+    debounceTicks: number; // the input must keep a new value this many updates before it counts as changed
+    cooldownTicks: number; // minimum updates between two fires; fires inside the cooldown are dropped
+    holdSec?: number;
+    debounceSec?: number;
+    cooldownSec?: number;
+}
+
+const CONDITION_DEFAULT_OPTIONS: ConditionOptions = {
+    trigger: 'rising',
+    holdTicks: 0,
+    debounceTicks: 0,
+    cooldownTicks: 0,
+};
+
+function __conditionOptions(base: ConditionOptions, changes: Partial<ConditionOptions>): ConditionOptions {
+    const options = { ...base, ...changes };
+    if (changes.holdSec !== undefined) options.holdTicks = timers.secondsToTicks(changes.holdSec);
+    if (changes.debounceSec !== undefined) options.debounceTicks = timers.secondsToTicks(changes.debounceSec);
+    if (changes.cooldownSec !== undefined) options.cooldownTicks = timers.secondsToTicks(changes.cooldownSec);
+    delete options.holdSec;
+    delete options.debounceSec;
+    delete options.cooldownSec;
+    return options;
+}
+
 export class ConditionState {
-    lastState: boolean;
+    lastState: boolean; // debounced state
+    options: ConditionOptions;
 
-    constructor() {
+    private pendingTicks = 0; // updates the raw input has disagreed with lastState
+    private heldTicks = 0; // updates since lastState changed (0 on the edge)
+    private changed = false; // lastState has changed at least once (no edge before the first rise)
+    private ticksSinceFire = Infinity;
+    private edge: ConditionEdge | undefined = undefined;
+
+    constructor(options: Partial<ConditionOptions> = {}) {
         this.lastState = false;
+        this.options = __conditionOptions(CONDITION_DEFAULT_OPTIONS, options);
     }
 
+    configure(changes: Partial<ConditionOptions>) {
+        this.options = __conditionOptions(this.options, changes);
+    }
+
+    // Feed the current value; returns true on the ticks the configured transition fires.
+    // With the defaults this is the block-editor behaviour: true once when the value becomes true.
     update(newState: boolean): boolean {
-        // if the new state is false then reset last state and don't trigger action
-        if (!newState) {
-            this.lastState = false;
-            return false;
+        const opts = this.options;
+        this.edge = undefined;
+        this.ticksSinceFire++;
+
+        if (newState === this.lastState) {
+            this.pendingTicks = 0;
+            this.heldTicks++;
+        } else if (++this.pendingTicks >= (opts.debounceTicks > 1 ? opts.debounceTicks : 1)) {
+            this.lastState = newState;
+            this.pendingTicks = 0;
+            this.heldTicks = 0;
+            this.changed = true;
+        } else {
+            this.heldTicks++;
         }
-        // if last state was already true then don't trigger
-        if (this.lastState) return false;
-        // if the state just transitioned to true then trigger
-        this.lastState = true;
+
+        if (!this.changed || this.heldTicks !== opts.holdTicks) return false;
+
+        const edge: ConditionEdge = this.lastState ? 'rising' : 'falling';
+        if (opts.trigger !== 'both' && opts.trigger !== edge) return false;
+        if (this.ticksSinceFire < opts.cooldownTicks) return false;
+
+        this.ticksSinceFire = 0;
+        this.edge = edge;
         return true;
     }
+
+    // The transition that made the last update() return true, for 'both' triggers.
+    firedEdge(): ConditionEdge | undefined {
+        return this.edge;
+    }
+
+    // Updates the current (debounced) value has held.
+    getHeldTicks(): number {
+        return this.heldTicks;
+    }
+
+    // Back to "false, never fired"; options are kept.
+    reset() {
+        this.lastState = false;
+        this.pendingTicks = 0;
+        this.heldTicks = 0;
+        this.changed = false;
+        this.ticksSinceFire = Infinity;
+        this.edge = undefined;
+    }
 }
 
 class Conditions {
@@ -137,66 +240,87 @@ class Conditions {
 
     conditionStates: ConditionState[];
 
-    getConditionState(n: number): ConditionState {
+    // options only apply when the state is created
+    getConditionState(n: number, options?: Partial<ConditionOptions>): ConditionState {
         while (n >= this.conditionStates.length) {
-            this.conditionStates.push(new ConditionState());
+            this.conditionStates.push(new ConditionState(n === this.conditionStates.length ? options : undefined));
         }
         return this.conditionStates[n];
     }
+
+    reset() {
+        for (let i = 0; i < this.conditionStates.length; i++) this.conditionStates[i].reset();
+    }
 }
 
-let playerConditions: Conditions[] = [];
-let teamConditions: Conditions[] = [];
-let capturePointConditions: Conditions[] = [];
-let mcomConditions: Conditions[] = [];
-let vehicleConditions: Conditions[] = [];
+export type ConditionScope = 'player' | 'team' | 'capturePoint' | 'mcom' | 'vehicle';
+
+// Per-entity condition sets, keyed by ObjId. Entries are dropped when the entity goes away
+// (player leaves, vehicle / MCOM destroyed), see the registrations below.
+const objectConditions: { [scope in ConditionScope]: Map<number, Conditions> } = {
+    player: new Map(),
+    team: new Map(),
+    capturePoint: new Map(),
+    mcom: new Map(),
+    vehicle: new Map(),
+};
 let globalConditions: Conditions = new Conditions();
 
-function getObjectCondition(id: number, objectConditions: Conditions[], n: number) {
-    while (id >= objectConditions.length) {
-        objectConditions.push(new Conditions());
+function getObjectCondition(scope: ConditionScope, id: number, n: number, options?: Partial<ConditionOptions>) {
+    const store = objectConditions[scope];
+    let conditions = store.get(id);
+    if (!conditions) {
+        conditions = new Conditions();
+        store.set(id, conditions);
     }
-    let conditions = objectConditions[id];
-    return conditions.getConditionState(n);
+    return conditions.getConditionState(n, options);
 }
 
-export function getPlayerCondition(obj: mod.Player, n: number) {
-    let id = getPlayerId(obj);
-    while (id >= playerConditions.length) {
-        playerConditions.push(new Conditions());
-    }
-    let conditions = playerConditions[id];
-    return conditions.getConditionState(n);
+export function getPlayerCondition(obj: mod.Player, n: number, options?: Partial<ConditionOptions>) {
+    return getObjectCondition('player', getPlayerId(obj), n, options);
 }
 
-export function getTeamCondition(team: mod.Team, n: number) {
-    let id = getTeamId(team);
-    while (id >= teamConditions.length) {
-        teamConditions.push(new Conditions());
-    }
-    let conditions = teamConditions[id];
-    return conditions.getConditionState(n);
+export function getTeamCondition(team: mod.Team, n: number, options?: Partial<ConditionOptions>) {
+    return getObjectCondition('team', getTeamId(team), n, options);
+}
+
+export function getCapturePointCondition(obj: mod.CapturePoint, n: number, options?: Partial<ConditionOptions>) {
+    return getObjectCondition('capturePoint', mod.GetObjId(obj), n, options);
 }
 
-export function getCapturePointCondition(obj: mod.CapturePoint, n: number) {
-    let id = mod.GetObjId(obj);
-    return getObjectCondition(id, capturePointConditions, n);
+export function getMCOMCondition(obj: mod.MCOM, n: number, options?: Partial<ConditionOptions>) {
+    return getObjectCondition('mcom', mod.GetObjId(obj), n, options);
 }
 
-export function getMCOMCondition(obj: mod.MCOM, n: number) {
-    let id = mod.GetObjId(obj);
-    return getObjectCondition(id, mcomConditions, n);
+export function getVehicleCondition(obj: mod.Vehicle, n: number, options?: Partial<ConditionOptions>) {
+    return getObjectCondition('vehicle', mod.GetObjId(obj), n, options);
 }
 
-export function getVehicleCondition(obj: mod.Vehicle, n: number) {
-    let id = mod.GetObjId(obj);
-    return getObjectCondition(id, vehicleConditions, n);
+export function getGlobalCondition(n: number, options?: Partial<ConditionOptions>) {
+    return globalConditions.getConditionState(n, options);
 }
 
-export function getGlobalCondition(n: number) {
-    return globalConditions.getConditionState(n);
+// Drops every condition of one entity; the next get*Condition starts fresh.
+export function clearObjectConditions(scope: ConditionScope, objId: number) {
+    objectConditions[scope].delete(objId);
 }
 
+// Resets every condition of one entity to false but keeps their options.
+export function resetObjectConditions(scope: ConditionScope, objId: number) {
+    const conditions = objectConditions[scope].get(objId);
+    if (conditions) conditions.reset();
+}
+
+export function resetGlobalConditions() {
+    globalConditions.reset();
+}
+
+// Last, so other handlers of the same event still see the states.
+const __conditionEventOptions = { module: 'Conditions', order: EVENT_ORDER_LAST };
+events.on('OnPlayerLeaveGame', (objId) => clearObjectConditions('player', objId), __conditionEventOptions);
+events.on('OnVehicleDestroyed', (vehicle) => clearObjectConditions('vehicle', mod.GetObjId(vehicle)), __conditionEventOptions);
+events.on('OnMCOMDestroyed', (mcom) => clearObjectConditions('mcom', mod.GetObjId(mcom)), __conditionEventOptions);
+
 export function getPlayersInTeam(team: mod.Team) {
     const allPlayers = mod.AllPlayers();
     const n = mod.CountOf(allPlayers);
@@ -212,15 +336,120 @@ export function getPlayersInTeam(team: mod.Team) {
 }
 
 //-----------------------------------------------------------------------------------------------//
+// Round-robin work slicing: spread per-entity work (players, capture points, vehicles) across
+// ticks. Each tick handles ceil(count / maxStalenessTicks) entries, so every entry is visited at
+// least once every maxStalenessTicks ticks and the cost per tick stays flat.
+//-----------------------------------------------------------------------------------------------//
+
+export class WorkSlicer<T> {
+    private items: T[] = [];
+    private members = new Set<T>();
+    private cursor = 0;
+    private recentSlices: number[] = []; // ceil(count / maxStalenessTicks) of the last ticks
+    private batch: T[] = [];
+    private maxStalenessTicks: number;
+
+    constructor(maxStalenessTicks: number) {
+        this.maxStalenessTicks = maxStalenessTicks < 1 ? 1 : maxStalenessTicks;
+    }
+
+    setMaxStaleness(ticks: number) {
+        this.maxStalenessTicks = ticks < 1 ? 1 : ticks;
+        this.recentSlices.length = 0;
+    }
+
+    getMaxStaleness(): number {
+        return this.maxStalenessTicks;
+    }
+
+    add(item: T) {
+        if (this.members.has(item)) return;
+        this.members.add(item);
+        // just behind the cursor: last in the current pass, so nobody else's turn moves back
+        this.items.splice(this.cursor, 0, item);
+        this.cursor = (this.cursor + 1) % this.items.length;
+    }
+
+    remove(item: T) {
+        if (!this.members.delete(item)) return;
+        const idx = this.items.indexOf(item);
+        this.items.splice(idx, 1);
+        // keep the cursor on the same next entry so nobody skips a turn
+        if (idx < this.cursor) this.cursor--;
+        if (this.cursor >= this.items.length) this.cursor = 0;
+    }
+
+    has(item: T): boolean {
+        return this.members.has(item);
+    }
+
+    count(): number {
+        return this.items.length;
+    }
+
+    clear() {
+        this.items = [];
+        this.members.clear();
+        this.cursor = 0;
+        this.recentSlices.length = 0;
+    }
+
+    // Processes this tick's slice of the registered entries. Returns how many were processed.
+    tick(fn: (item: T) => void): number {
+        const n = this.items.length;
+        if (n === 0) return 0;
+        const slice = this.sliceSize(n);
+        // copy the slice first: fn may add or remove entries
+        const batch = this.batch;
+        batch.length = 0;
+        for (let i = 0; i < slice; i++) {
+            batch.push(this.items[(this.cursor + i) % n]);
+        }
+        this.cursor = (this.cursor + slice) % n;
+        for (let i = 0; i < slice; i++) {
+            fn(batch[i]);
+        }
+        return slice;
+    }
+
+    // Same, for a list that is rebuilt every tick (e.g. ConvertArray(mod.AllCapturePoints())).
+    // Staleness holds as long as the list keeps roughly the same order between ticks.
+    tickArray(items: T[], fn: (item: T) => void): number {
+        const n = items.length;
+        if (n === 0) return 0;
+        const slice = this.sliceSize(n);
+        if (this.cursor >= n) this.cursor = 0;
+        for (let i = 0; i < slice; i++) {
+            fn(items[(this.cursor + i) % n]);
+        }
+        this.cursor = (this.cursor + slice) % n;
+        return slice;
+    }
+
+    // An entry waits behind at most the entries registered on its own turn, so each slice is the
+    // largest of the last maxStalenessTicks + 1 ticks: after entries are removed the slice shrinks
+    // only once no entry that is still waiting can be pushed back by it.
+    private sliceSize(n: number): number {
+        const recent = this.recentSlices;
+        recent.push(mod.Ceiling(n / this.maxStalenessTicks));
+        if (recent.length > this.maxStalenessTicks + 1) recent.shift();
+        let slice = 0;
+        for (let i = 0; i < recent.length; i++) {
+            if (recent[i] > slice) slice = recent[i];
+        }
+        return slice > n ? n : slice;
+    }
+}
+
 //-----------------------------------------------------------------------------------------------//
 //-----------------------------------------------------------------------------------------------//
 //-----------------------------------------------------------------------------------------------//
 // Helper functions to create UI from a JSON object tree:
 //-----------------------------------------------------------------------------------------------//
 
-type UIVector = mod.Vector | number[];
+export type UIVector = mod.Vector | number[];
 
-interface UIParams {
+export interface UIParams {
     name: string;
     type: string;
     position: any;
@@ -228,7 +457,7 @@ interface UIParams {
     anchor: mod.UIAnchor;
     parent: mod.UIWidget;
     visible: boolean;
-    textLabel: string;
+    textLabel: string | mod.Message;
     textColor: UIVector;
     textAlpha: number;
     textSize: number;
@@ -243,6 +472,13 @@ interface UIParams {
     teamId?: mod.Team;
     playerId?: mod.Player;
     children?: any[];
+    spacing?: number; // VStack / HStack / Grid: gap between children
+    columns?: number; // Grid
+    cellSize?: UISize; // Grid: [width, height] in pixels or 'fill'; default: square cells across the width
+    onClick?: UIButtonHandler; // Button; see buttons.ts
+    onHover?: UIButtonToggleHandler;
+    onFocus?: UIButtonToggleHandler;
+    menu?: boolean; // with a playerId: UI input mode is on while it is shown
     buttonEnabled: boolean;
     buttonColorBase: UIVector;
     buttonAlphaBase: number;
@@ -273,26 +509,24 @@ function __fillInDefaultArgs(params: UIParams) {
     if (!params.hasOwnProperty('anchor')) params.anchor = mod.UIAnchor.TopLeft;
     if (!params.hasOwnProperty('parent')) params.parent = mod.GetUIRoot();
     if (!params.hasOwnProperty('visible')) params.visible = true;
-    if (!params.hasOwnProperty('padding')) params.padding = params.type == 'Container' ? 0 : 8;
+    if (!params.hasOwnProperty('padding')) params.padding = params.type == 'Container' || __isUILayoutType(params.type) ? 0 : 8;
     if (!params.hasOwnProperty('bgColor')) params.bgColor = mod.CreateVector(0.25, 0.25, 0.25);
     if (!params.hasOwnProperty('bgAlpha')) params.bgAlpha = 0.5;
-    if (!params.hasOwnProperty('bgFill')) params.bgFill = mod.UIBgFill.Solid;
+    if (!params.hasOwnProperty('bgFill')) params.bgFill = __isUILayoutType(params.type) ? mod.UIBgFill.None : mod.UIBgFill.Solid;
 }
 
-function __setNameAndGetWidget(uniqueName: any, params: any) {
-    let widget = mod.FindUIWidgetWithName(uniqueName) as mod.UIWidget;
-    mod.SetUIWidgetName(widget, params.name);
-    return widget;
+// Creates under a name nobody else uses, then renames and registers the widget (see widgets.ts).
+function __adoptUIWidget(creationName: string, params: UIParams) {
+    return widgets.adopt(creationName, params.type, params.name, params.parent, { player: params.playerId, team: params.teamId }).widget;
 }
 
-const __cUniqueName = '----uniquename----';
-
 function __addUIContainer(params: UIParams) {
     __fillInDefaultArgs(params);
     let restrict = params.teamId ?? params.playerId;
+    const creationName = widgets.creationName();
     if (restrict) {
         mod.AddUIContainer(
-            __cUniqueName,
+            creationName,
             __asModVector(params.position),
             __asModVector(params.size),
             params.anchor,
@@ -306,7 +540,7 @@ function __addUIContainer(params: UIParams) {
         );
     } else {
         mod.AddUIContainer(
-            __cUniqueName,
+            creationName,
             __asModVector(params.position),
             __asModVector(params.size),
             params.anchor,
@@ -318,7 +552,7 @@ function __addUIContainer(params: UIParams) {
             params.bgFill
         );
     }
-    let widget = __setNameAndGetWidget(__cUniqueName, params);
+    let widget = __adoptUIWidget(creationName, params);
     if (params.children) {
         params.children.forEach((childParams: any) => {
             childParams.parent = widget;
@@ -340,9 +574,10 @@ function __addUIText(params: UIParams) {
     __fillInDefaultArgs(params);
     __fillInDefaultTextArgs(params);
     let restrict = params.teamId ?? params.playerId;
+    const creationName = widgets.creationName();
     if (restrict) {
         mod.AddUIText(
-            __cUniqueName,
+            creationName,
             __asModVector(params.position),
             __asModVector(params.size),
             params.anchor,
@@ -361,7 +596,7 @@ function __addUIText(params: UIParams) {
         );
     } else {
         mod.AddUIText(
-            __cUniqueName,
+            creationName,
             __asModVector(params.position),
             __asModVector(params.size),
             params.anchor,
@@ -378,7 +613,7 @@ function __addUIText(params: UIParams) {
             params.textAnchor
         );
     }
-    return __setNameAndGetWidget(__cUniqueName, params);
+    return __adoptUIWidget(creationName, params);
 }
 
 function __fillInDefaultImageArgs(params: any) {
@@ -391,9 +626,10 @@ function __addUIImage(params: UIParams) {
     __fillInDefaultArgs(params);
     __fillInDefaultImageArgs(params);
     let restrict = params.teamId ?? params.playerId;
+    const creationName = widgets.creationName();
     if (restrict) {
         mod.AddUIImage(
-            __cUniqueName,
+            creationName,
             __asModVector(params.position),
             __asModVector(params.size),
             params.anchor,
@@ -410,7 +646,7 @@ function __addUIImage(params: UIParams) {
         );
     } else {
         mod.AddUIImage(
-            __cUniqueName,
+            creationName,
             __asModVector(params.position),
             __asModVector(params.size),
             params.anchor,
@@ -425,7 +661,7 @@ function __addUIImage(params: UIParams) {
             params.imageAlpha
         );
     }
-    return __setNameAndGetWidget(__cUniqueName, params);
+    return __adoptUIWidget(creationName, params);
 }
 
 function __fillInDefaultArg(params: any, argName: any, defaultValue: any) {
@@ -450,9 +686,10 @@ function __addUIButton(params: UIParams) {
     __fillInDefaultArgs(params);
     __fillInDefaultButtonArgs(params);
     let restrict = params.teamId ?? params.playerId;
+    const creationName = widgets.creationName();
     if (restrict) {
         mod.AddUIButton(
-            __cUniqueName,
+            creationName,
             __asModVector(params.position),
             __asModVector(params.size),
             params.anchor,
@@ -477,7 +714,7 @@ function __addUIButton(params: UIParams) {
         );
     } else {
         mod.AddUIButton(
-            __cUniqueName,
+            creationName,
             __asModVector(params.position),
             __asModVector(params.size),
             params.anchor,
@@ -500,160 +737,222 @@ function __addUIButton(params: UIParams) {
             params.buttonAlphaFocused
         );
     }
-    return __setNameAndGetWidget(__cUniqueName, params);
+    return __adoptUIWidget(creationName, params);
 }
 
 function __addUIWidget(params: UIParams) {
     if (params == null) return undefined;
-    if (params.type == 'Container') return __addUIContainer(params);
-    else if (params.type == 'Text') return __addUIText(params);
-    else if (params.type == 'Image') return __addUIImage(params);
-    else if (params.type == 'Button') return __addUIButton(params);
-    return undefined;
-}
-
-export function ParseUI(...params: any[]) {
     let widget: mod.UIWidget | undefined;
-    for (let a = 0; a < params.length; a++) {
-        widget = __addUIWidget(params[a] as UIParams);
-    }
+    if (params.type == 'Container' || __isUILayoutType(params.type)) widget = __addUIContainer(params);
+    else if (params.type == 'Text') widget = __addUIText(params);
+    else if (params.type == 'Image') widget = __addUIImage(params);
+    else if (params.type == 'Button') widget = __addUIButton(params);
+    if (widget) __bindUIWidget(widget, params);
     return widget;
 }
 
-export function DisplayCustomNotificationMessage(msg: mod.Message, custom: mod.CustomNotificationSlots, duration: number, target?: mod.Player | mod.Team) {
-    const CreateHeader = async (widgetId: string, msg: mod.Message, targetPlayer: mod.Player, slot: number) => {
-        mod.AddUIText(
-            widgetId,
-            mod.CreateVector(50, 250 + slot * (40 + 5), 0),
-            mod.CreateVector(250, 60, 0),
-            mod.UIAnchor.TopRight,
-            mod.GetUIRoot(),
-            true,
-            8,
-            mod.CreateVector(1, 1, 1),
-            1,
-            mod.UIBgFill.Blur,
-            msg,
-            30,
-            mod.CreateVector(1, 1, 1),
-            1,
-            mod.UIAnchor.Center,
-            targetPlayer
-        );
-        if (duration > 0) {
-            await mod.Wait(duration);
-            mod.DeleteUIWidget(mod.FindUIWidgetWithName(widgetId));
-        }
-    };
-    const CreateSubText = async (widgetId: string, msg: mod.Message, targetPlayer: mod.Player, slot: number) => {
-        mod.AddUIText(
-            widgetId,
-            mod.CreateVector(85, 270 + slot * (40 + 3), 0),
-            mod.CreateVector(125, 40, 0),
-            mod.UIAnchor.TopRight,
-            mod.GetUIRoot(),
-            true,
-            8,
-            mod.CreateVector(1, 1, 1),
-            1,
-            mod.UIBgFill.Blur,
-            msg,
-            20,
-            mod.CreateVector(1, 1, 1),
-            1,
-            mod.UIAnchor.Center,
-            targetPlayer
-        );
-        if (duration > 0) {
-            await mod.Wait(duration);
-            mod.DeleteUIWidget(mod.FindUIWidgetWithName(widgetId));
-        }
-    };
-    const createNotificationFunction = custom < 1 ? CreateHeader : CreateSubText;
+// The player / team a button is shown to comes from its handle, so it can be inherited.
+function __bindUIWidget(widget: mod.UIWidget, params: UIParams) {
+    if (!params.menu && !(params.type == 'Button' && hasUIButtonHandlers(params))) return;
+    const handle = widgets.find(widget);
+    if (!handle) return;
+    if (params.type == 'Button' && hasUIButtonHandlers(params)) buttons.bind(widget, params, { player: handle.player, team: handle.team });
+    if (params.menu && handle.player) buttons.addMenu(widget, handle.player, params.visible);
+}
 
-    if (target) {
-        // if target is player, fill message in their slot
-        if (mod.IsType(target, mod.Types.Player)) {
-            const widgetId = custom + String(target);
-            createNotificationFunction(widgetId, msg, target as mod.Player, custom);
-        }
-        // if target is team, fill message in slot for all players on team
-        else if (mod.IsType(target, mod.Types.Team)) {
-            const teamMates = getPlayersInTeam(target as mod.Team);
-            teamMates.forEach((player) => {
-                const widgetId = custom + String(player);
-                createNotificationFunction(widgetId, msg, player, custom);
-            });
-        }
-    } else {
-        const allPlayers = mod.AllPlayers();
-        const n = mod.CountOf(allPlayers);
-        for (let i = 0; i < n; i++) {
-            let player = mod.ValueInArray(allPlayers, i) as mod.Player;
-            const widgetId = custom + String(player);
-            createNotificationFunction(widgetId, msg, player, custom);
-        }
+//-----------------------------------------------------------------------------------------------//
+// Layout: 'VStack', 'HStack' and 'Grid' are containers that place their children, and any size or
+// position can be given as 'NN%' of the parent or 'fill'. LayoutUI turns all of it into pixels
+// before ParseUI creates anything:
+//   ParseUI({ type: 'VStack', position: [20, 200], size: [300, 'fill'], spacing: 5, children: [
+//       { type: 'Text', size: ['fill', 40], textLabel: 'one' },
+//       { type: 'Text', size: ['fill', 40], textLabel: 'two' },
+//   ] });
+//
+// Stacks lay children out top to bottom / left to right from the top-left corner, skip invisible
+// ones, and split what's left of their length between 'fill' children. A stack or grid without a
+// size fits its fixed-size children.
+//-----------------------------------------------------------------------------------------------//
+
+export type UILength = number | string; // pixels, 'NN%' of the parent, or 'fill'
+export type UISize = mod.Vector | UILength[];
+
+const __cUIScreenSize = [1920, 1080];
+
+function __isUILayoutType(type: string) {
+    return type == 'VStack' || type == 'HStack' || type == 'Grid';
+}
+
+function __uiLengths(param: UISize | undefined): UILength[] | undefined {
+    if (param === undefined) return undefined;
+    if (Array.isArray(param)) return param;
+    return [mod.XComponentOf(param), mod.YComponentOf(param)];
+}
+
+function __uiLength(value: UILength | undefined, parentLength: number, fallback: number): number {
+    if (typeof value === 'number') return value;
+    if (value === undefined || value === 'fill') return fallback;
+    if (value.endsWith('%')) return (parentLength * Number(value.slice(0, -1))) / 100;
+    return Number(value);
+}
+
+// Resolves 'NN%' / 'fill' against the parent box; vectors and all-number arrays are left alone.
+function __resolveUILengths(param: UISize, box: number[]): UISize {
+    if (!Array.isArray(param) || !param.some((v) => typeof v === 'string')) return param;
+    return param.map((v, i) => (i < 2 ? __uiLength(v, box[i], box[i]) : v));
+}
+
+function __uiBox(params: UIParams): number[] {
+    const size = __uiLengths(params.size);
+    if (!size) return [100, 100]; // ParseUI's default size
+    return [__uiLength(size[0], 0, 0), __uiLength(size[1], 0, 0)];
+}
+
+function __uiShownChildren(params: UIParams): UIParams[] {
+    if (!params.children) return [];
+    return params.children.filter((child: UIParams) => child != null && child.visible !== false);
+}
+
+function __uiGridColumns(params: UIParams) {
+    return params.columns !== undefined && params.columns > 1 ? mod.Floor(params.columns) : 1;
+}
+
+// Bottom-up: gives stacks and grids without a size the size of their fixed-size children.
+function __fitUILayout(params: UIParams) {
+    if (params.children) params.children.forEach((child: UIParams) => child != null && __fitUILayout(child));
+    if (!__isUILayoutType(params.type) || params.size !== undefined) return;
+
+    const shown = __uiShownChildren(params);
+    const spacing = params.spacing ?? 0;
+    const gaps = shown.length > 1 ? spacing * (shown.length - 1) : 0;
+
+    if (params.type == 'Grid') {
+        const cell = __uiLengths(params.cellSize);
+        if (!cell || typeof cell[0] !== 'number' || typeof cell[1] !== 'number') return;
+        const columns = __uiGridColumns(params);
+        const rows = mod.Ceiling(shown.length / columns);
+        params.size = [columns * cell[0] + (columns - 1) * spacing, rows > 0 ? rows * cell[1] + (rows - 1) * spacing : 0];
+        return;
+    }
+
+    const main = params.type == 'VStack' ? 1 : 0;
+    const cross = 1 - main;
+    let length = gaps;
+    let thickness = 0;
+    for (const child of shown) {
+        const size = __uiLengths(child.size) ?? [100, 100];
+        if (typeof size[main] === 'number') length += size[main] as number;
+        if (typeof size[cross] === 'number') thickness = mod.Max(thickness, size[cross] as number);
+    }
+    params.size = main == 1 ? [thickness, length] : [length, thickness];
+}
+
+function __placeUIStack(params: UIParams, box: number[]) {
+    const main = params.type == 'VStack' ? 1 : 0;
+    const cross = 1 - main;
+    const spacing = params.spacing ?? 0;
+    const shown = __uiShownChildren(params);
+
+    // children without a size fill the cross axis and are 100 long
+    const sizes = shown.map((child) => __uiLengths(child.size) ?? (main == 1 ? ['fill', 100] : [100, 'fill']));
+    let fixed = shown.length > 1 ? spacing * (shown.length - 1) : 0;
+    let fills = 0;
+    for (const size of sizes) {
+        if (size[main] === 'fill') fills++;
+        else fixed += __uiLength(size[main], box[main], 0);
+    }
+    const fillLength = fills > 0 && box[main] > fixed ? (box[main] - fixed) / fills : 0;
+
+    let cursor = 0;
+    for (let i = 0; i < shown.length; i++) {
+        const size = [0, 0];
+        size[main] = sizes[i][main] === 'fill' ? fillLength : __uiLength(sizes[i][main], box[main], 0);
+        size[cross] = __uiLength(sizes[i][cross], box[cross], box[cross]);
+
+        // a position on the cross axis is kept as an offset
+        const offset = __uiLengths(shown[i].position);
+        const position = [0, 0];
+        position[main] = cursor;
+        position[cross] = offset ? __uiLength(offset[cross], box[cross], 0) : 0;
+
+        shown[i].size = size;
+        shown[i].position = position;
+        shown[i].anchor = mod.UIAnchor.TopLeft;
+        cursor += size[main] + spacing;
     }
 }
 
-export function ShowEventGameModeMessage(event: mod.Message, target?: mod.Player | mod.Team) {
-    //TODO: restore these once DisplayGameModeMessage is fixed
-    // if (target) {
-    //     mod.DisplayGameModeMessage(event, target as mod.Player );
-    // } else{
-    //     mod.DisplayGameModeMessage(event);
-    // }
-
-    const MakeShiftDisplayGameModeMessage = async (message: mod.Message, target?: mod.Player | mod.Team) => {
-        const widgetId = 'GameModeMessage';
-        if (target) {
-            mod.AddUIText(
-                widgetId,
-                mod.CreateVector(0, 0, 0),
-                mod.CreateVector(2500, 80, 0),
-                mod.UIAnchor.TopCenter,
-                mod.GetUIRoot(),
-                true,
-                8,
-                mod.CreateVector(1, 1, 1),
-                1,
-                mod.UIBgFill.Blur,
-                message,
-                30,
-                mod.CreateVector(1, 1, 1),
-                1,
-                mod.UIAnchor.Center,
-                target as mod.Player
-            );
-        } else {
-            mod.AddUIText(
-                widgetId,
-                mod.CreateVector(0, 0, 0),
-                mod.CreateVector(2500, 80, 0),
-                mod.UIAnchor.TopCenter,
-                mod.GetUIRoot(),
-                true,
-                8,
-                mod.CreateVector(1, 1, 1),
-                1,
-                mod.UIBgFill.Blur,
-                message,
-                30,
-                mod.CreateVector(1, 1, 1),
-                1,
-                mod.UIAnchor.Center
-            );
+function __placeUIGrid(params: UIParams, box: number[]) {
+    const columns = __uiGridColumns(params);
+    const spacing = params.spacing ?? 0;
+    const column = (box[0] - spacing * (columns - 1)) / columns;
+    const cellSize = __uiLengths(params.cellSize) ?? ['fill', 'fill'];
+    const cell = [__uiLength(cellSize[0], column, column), __uiLength(cellSize[1], column, column)];
+
+    const shown = __uiShownChildren(params);
+    for (let i = 0; i < shown.length; i++) {
+        const col = mod.Modulo(i, columns);
+        const row = mod.Floor(i / columns);
+        shown[i].position = [col * (cell[0] + spacing), row * (cell[1] + spacing)];
+        shown[i].size = shown[i].size !== undefined ? __resolveUILengths(shown[i].size, cell) : cell;
+        shown[i].anchor = mod.UIAnchor.TopLeft;
+    }
+}
+
+// Top-down: the node's own size is already in pixels.
+function __placeUIChildren(params: UIParams) {
+    if (!params.children || params.children.length == 0) return;
+    const box = __uiBox(params);
+    const isLayout = __isUILayoutType(params.type);
+    if (params.type == 'VStack' || params.type == 'HStack') __placeUIStack(params, box);
+    else if (params.type == 'Grid') __placeUIGrid(params, box);
+
+    params.children.forEach((child: UIParams) => {
+        if (child == null) return;
+        // hidden children of a stack / grid aren't placed, but still need a valid size
+        if (!isLayout || child.visible === false) {
+            if (child.size !== undefined) child.size = __resolveUILengths(child.size, box);
+            if (child.position !== undefined) child.position = __resolveUILengths(child.position, box);
         }
+        __placeUIChildren(child);
+    });
+}
 
-        await mod.Wait(6);
-        mod.DeleteUIWidget(mod.FindUIWidgetWithName(widgetId));
-    };
+// Resolves layout containers and relative sizes in a UIParams tree to pixels, in place. The top node
+// is sized against `parentSize`, the 1920x1080 screen by default.
+export function LayoutUI(params: UIParams, parentSize: number[] = __cUIScreenSize) {
+    __fitUILayout(params);
+    if (params.size !== undefined) params.size = __resolveUILengths(params.size, parentSize);
+    if (params.position !== undefined) params.position = __resolveUILengths(params.position, parentSize);
+    __placeUIChildren(params);
+    return params;
+}
 
-    if (target) {
-        MakeShiftDisplayGameModeMessage(event, target as mod.Player);
-    } else {
-        MakeShiftDisplayGameModeMessage(event);
+export function ParseUI(...params: any[]) {
+    let widget: mod.UIWidget | undefined;
+    for (let a = 0; a < params.length; a++) {
+        if (params[a] != null) LayoutUI(params[a] as UIParams);
+        widget = __addUIWidget(params[a] as UIParams);
     }
+    return widget;
+}
+
+// Replaces the slot's message for each target player; see modlib.notifications for queueing and
+// priorities.
+export function DisplayCustomNotificationMessage(
+    msg: mod.Message,
+    custom: mod.CustomNotificationSlots,
+    duration: number,
+    target?: mod.Player | mod.Team,
+    options?: NotificationOptions
+) {
+    notifications.show(msg, custom, duration, target, options);
+}
+
+// Stands in for mod.DisplayGameModeMessage (not available yet): shown for
+// notifications.configure({ gameModeSeconds }) seconds.
+export function ShowEventGameModeMessage(event: mod.Message, target?: mod.Player | mod.Team, options?: NotificationOptions) {
+    notifications.showGameMode(event, target, options);
 }
 
 export function ShowHighlightedGameModeMessage(event: mod.Message, target?: mod.Player | mod.Team) {
@@ -673,48 +972,9 @@ export function ShowNotificationMessage(msg: mod.Message, target?: mod.Player |
 }
 
 export function ClearAllCustomNotificationMessages(target: mod.Player) {
-    try {
-        ClearCustomNotificationMessage(mod.CustomNotificationSlots.HeaderText, target);
-    } catch {}
-    try {
-        ClearCustomNotificationMessage(mod.CustomNotificationSlots.MessageText1, target);
-    } catch {}
-    try {
-        ClearCustomNotificationMessage(mod.CustomNotificationSlots.MessageText2, target);
-    } catch {}
-    try {
-        ClearCustomNotificationMessage(mod.CustomNotificationSlots.MessageText3, target);
-    } catch {}
-    try {
-        ClearCustomNotificationMessage(mod.CustomNotificationSlots.MessageText4, target);
-    } catch {}
+    notifications.clearAll(target);
 }
 
 export function ClearCustomNotificationMessage(custom: mod.CustomNotificationSlots, target?: mod.Player | mod.Team) {
-    try {
-        if (target) {
-            // if target is player, just delete message in their slot
-            if (mod.IsType(target, mod.Types.Player)) {
-                mod.DeleteUIWidget(mod.FindUIWidgetWithName(custom + String(target as mod.Player)));
-            }
-            // if target is team, delete message in slot for all players on team
-            else if (mod.IsType(target, mod.Types.Team)) {
-                const teamMembers = getPlayersInTeam(target as mod.Team);
-                for (let i = 0; i < teamMembers.length; i++) {
-                    let player = teamMembers[i];
-                    mod.DeleteUIWidget(mod.FindUIWidgetWithName(custom + String(player)));
-                }
-            }
-        } else {
-            // if no target, delete for all players
-            const allPlayers = mod.AllPlayers();
-            const n = mod.CountOf(allPlayers);
-            for (let i = 0; i < n; i++) {
-                let player = mod.ValueInArray(allPlayers, i) as mod.Player;
-                mod.DeleteUIWidget(mod.FindUIWidgetWithName(custom + String(player)));
-            }
-        }
-    } catch {
-        console.error('Could not clear custom message for specified target(s)');
-    }
+    notifications.clear(custom, target);
 }
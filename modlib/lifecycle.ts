@@ -0,0 +1,247 @@
+//-----------------------------------------------------------------------------------------------//
+// Match lifecycle: one source of truth for "what phase is the match in".
+//
+// The SDK has no game-state getter, so the phase is derived from events. The lifecycle registers
+// itself with modlib.events (running first), so with copy-paste/EventExports.ts nothing else is
+// needed. A mode that exports its own handlers forwards them instead:
+//   OnGameModeStarted  -> matchLifecycle.onGameModeStarted()
+//   OnPlayerJoinGame   -> matchLifecycle.onPlayerJoinGame(eventPlayer)
+//   OnPlayerLeaveGame  -> matchLifecycle.onPlayerLeaveGame(eventNumber)
+//   OnTimeLimitReached -> matchLifecycle.onTimeLimitReached()
+//   OnGameModeEnding   -> matchLifecycle.onGameModeEnding()
+//   OngoingGlobal      -> matchLifecycle.tick()
+//
+// Phases:
+//   WaitingForPlayers -> Warmup (countdown) -> Live -> Overtime -> Ending -> PostMatch
+//-----------------------------------------------------------------------------------------------//
+
+import { EVENT_ORDER_FIRST, events } from './events';
+
+export type MatchPhase = 'WaitingForPlayers' | 'Warmup' | 'Live' | 'Overtime' | 'Ending' | 'PostMatch';
+
+export interface MatchLifecycleConfig {
+    tickRate: number;
+    minPlayers: number; // players needed to leave WaitingForPlayers
+    warmupSec: number; // countdown before Live; 0 = straight to Live
+    abortWarmupBelowMinPlayers: boolean; // back to WaitingForPlayers if players leave during warmup
+    overtime: boolean | (() => boolean); // what OnTimeLimitReached does: Overtime, or wait for the mode to end
+    endingSec: number; // Ending -> PostMatch after this long
+}
+
+const MATCH_LIFECYCLE_DEFAULT_CONFIG: MatchLifecycleConfig = {
+    tickRate: 30,
+    minPlayers: 1,
+    warmupSec: 0,
+    abortWarmupBelowMinPlayers: true,
+    overtime: false,
+    endingSec: 5,
+};
+
+type PhaseCallback = (phase: MatchPhase, other: MatchPhase) => void;
+
+class PhaseListener {
+    constructor(public id: number, public phase: MatchPhase | undefined, public kind: 'enter' | 'exit', public fn: PhaseCallback) {}
+}
+
+export class MatchLifecycle {
+    private config: MatchLifecycleConfig;
+
+    private phase: MatchPhase = 'WaitingForPlayers';
+    private started = false;
+    private phaseTicks = 0;
+    private ticksByPhase: { [phase: string]: number } = {};
+
+    private players = new Set<number>();
+
+    private nextListenerId = 1;
+    private listeners: PhaseListener[] = [];
+
+    constructor(config: Partial<MatchLifecycleConfig> = {}) {
+        this.config = { ...MATCH_LIFECYCLE_DEFAULT_CONFIG, ...config };
+    }
+
+    configure(changes: Partial<MatchLifecycleConfig>) {
+        this.config = { ...this.config, ...changes };
+    }
+
+    getPhase(): MatchPhase {
+        return this.phase;
+    }
+
+    isPhase(phase: MatchPhase): boolean {
+        return this.phase === phase;
+    }
+
+    // Live or Overtime. Until OnGameModeStarted has been forwarded this falls back to the old
+    // heuristic (match time running), so tools keep working in modes that don't wire the lifecycle.
+    isLive(): boolean {
+        if (!this.started) return mod.GetMatchTimeElapsed() > 0;
+        return this.phase === 'Live' || this.phase === 'Overtime';
+    }
+
+    // Ticks since the current phase was entered.
+    getPhaseTicks(): number {
+        return this.phaseTicks;
+    }
+
+    // Total ticks spent in a phase this match (including the current stay).
+    getTicksIn(phase: MatchPhase): number {
+        return this.ticksByPhase[phase] ?? 0;
+    }
+
+    // Countdown for timed phases (Warmup, Ending); 0 for the others.
+    getPhaseSecondsLeft(): number {
+        let total = 0;
+        if (this.phase === 'Warmup') total = this.config.warmupSec;
+        else if (this.phase === 'Ending') total = this.config.endingSec;
+        const left = total - this.phaseTicks / this.config.tickRate;
+        return left > 0 ? left : 0;
+    }
+
+    getPlayerCount(): number {
+        return this.players.size;
+    }
+
+    // fn(phase, previousPhase). Omit `phase` to hear every transition. Returns an id for off().
+    onEnter(phase: MatchPhase | undefined, fn: PhaseCallback): number {
+        return this.addListener(phase, 'enter', fn);
+    }
+
+    // fn(phase, nextPhase)
+    onExit(phase: MatchPhase | undefined, fn: PhaseCallback): number {
+        return this.addListener(phase, 'exit', fn);
+    }
+
+    off(id: number): boolean {
+        const idx = this.listeners.findIndex((l) => l.id === id);
+        if (idx < 0) return false;
+        this.listeners.splice(idx, 1);
+        return true;
+    }
+
+    private addListener(phase: MatchPhase | undefined, kind: 'enter' | 'exit', fn: PhaseCallback): number {
+        const id = this.nextListenerId++;
+        this.listeners.push(new PhaseListener(id, phase, kind, fn));
+        return id;
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Manual transitions, for modes with their own rules (ready-up, round resets, ...)
+    //-------------------------------------------------------------------------------------------//
+
+    goLive() {
+        this.setPhase('Live');
+    }
+
+    startOvertime() {
+        this.setPhase('Overtime');
+    }
+
+    // Ending is normally entered from OnGameModeEnding; call this to start it earlier.
+    end() {
+        if (this.phase === 'Ending' || this.phase === 'PostMatch') return;
+        this.setPhase('Ending');
+    }
+
+    // Back to WaitingForPlayers for a new round; per-phase totals start over.
+    reset() {
+        this.ticksByPhase = {};
+        this.setPhase('WaitingForPlayers');
+        this.recountPlayers();
+        this.checkPlayerCount();
+    }
+
+    private setPhase(next: MatchPhase) {
+        const prev = this.phase;
+        if (next === prev) return;
+
+        for (let i = 0; i < this.listeners.length; i++) {
+            const l = this.listeners[i];
+            if (l.kind === 'exit' && (l.phase === undefined || l.phase === prev)) l.fn(prev, next);
+        }
+
+        this.phase = next;
+        this.phaseTicks = 0;
+
+        for (let i = 0; i < this.listeners.length; i++) {
+            const l = this.listeners[i];
+            if (l.kind === 'enter' && (l.phase === undefined || l.phase === next)) l.fn(next, prev);
+        }
+    }
+
+    // Players already in the match (or who joined before the events were forwarded) never send an
+    // OnPlayerJoinGame the lifecycle sees, so the count is rebuilt from mod.AllPlayers().
+    private recountPlayers() {
+        this.players.clear();
+        const allPlayers = mod.AllPlayers();
+        const n = mod.CountOf(allPlayers);
+        for (let i = 0; i < n; i++) {
+            this.players.add(mod.GetObjId(mod.ValueInArray(allPlayers, i) as mod.Player));
+        }
+    }
+
+    private checkPlayerCount() {
+        if (!this.started) return;
+        const enough = this.players.size >= this.config.minPlayers;
+
+        if (this.phase === 'WaitingForPlayers' && enough) {
+            this.setPhase(this.config.warmupSec > 0 ? 'Warmup' : 'Live');
+        } else if (this.phase === 'Warmup' && !enough && this.config.abortWarmupBelowMinPlayers) {
+            this.setPhase('WaitingForPlayers');
+        }
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Event forwarding
+    //-------------------------------------------------------------------------------------------//
+
+    onGameModeStarted() {
+        this.started = true;
+        this.recountPlayers();
+        this.checkPlayerCount();
+    }
+
+    onPlayerJoinGame(player: mod.Player) {
+        this.players.add(mod.GetObjId(player));
+        this.checkPlayerCount();
+    }
+
+    onPlayerLeaveGame(playerObjId: number) {
+        this.players.delete(playerObjId);
+        this.checkPlayerCount();
+    }
+
+    onTimeLimitReached() {
+        if (this.phase !== 'Live') return;
+        const overtime = this.config.overtime;
+        if (typeof overtime === 'function' ? overtime() : overtime) this.setPhase('Overtime');
+    }
+
+    onGameModeEnding() {
+        this.end();
+    }
+
+    tick() {
+        if (!this.started) return;
+
+        this.phaseTicks++;
+        this.ticksByPhase[this.phase] = (this.ticksByPhase[this.phase] ?? 0) + 1;
+
+        const seconds = this.phaseTicks / this.config.tickRate;
+        if (this.phase === 'Warmup' && seconds >= this.config.warmupSec) {
+            this.setPhase('Live');
+        } else if (this.phase === 'Ending' && seconds >= this.config.endingSec) {
+            this.setPhase('PostMatch');
+        }
+    }
+}
+
+export const matchLifecycle = new MatchLifecycle();
+
+const __lifecycleEventOptions = { module: 'MatchLifecycle', order: EVENT_ORDER_FIRST };
+events.on('OnGameModeStarted', () => matchLifecycle.onGameModeStarted(), __lifecycleEventOptions);
+events.on('OnPlayerJoinGame', (player) => matchLifecycle.onPlayerJoinGame(player), __lifecycleEventOptions);
+events.on('OnPlayerLeaveGame', (objId) => matchLifecycle.onPlayerLeaveGame(objId), __lifecycleEventOptions);
+events.on('OnTimeLimitReached', () => matchLifecycle.onTimeLimitReached(), __lifecycleEventOptions);
+events.on('OnGameModeEnding', () => matchLifecycle.onGameModeEnding(), __lifecycleEventOptions);
+events.on('OngoingGlobal', () => matchLifecycle.tick(), __lifecycleEventOptions);
@@ -0,0 +1,244 @@
+//-----------------------------------------------------------------------------------------------//
+// Notifications: per-player queues for the custom notification slots and the game mode message.
+//
+//   modlib.notifications.show(mod.Message(mod.stringkeys.flagTaken), mod.CustomNotificationSlots.HeaderText, 4, team);
+//   modlib.notifications.show(msg, mod.CustomNotificationSlots.MessageText1, 3, player, { policy: 'enqueue' });
+//   modlib.notifications.show(msg, mod.CustomNotificationSlots.MessageText1, 5, player, { priority: 10 });
+//   modlib.notifications.showGameMode(mod.Message(mod.stringkeys.overtime));
+//
+// Every player has one channel per slot (plus 'GameMode'), showing one message at a time:
+//   'replace' (default)  shown now, unless the current message has a higher priority: then queued
+//   'enqueue'            shown after the current message and every queued one of at least its priority
+//   'ifIdle'             shown only if the channel is empty, otherwise dropped
+// A replaced message is gone, not resumed. Expiry counts modlib.timers ticks and belongs to the
+// message, so an old message's expiry never removes a newer one. Duration 0 = until cleared.
+// A team / everybody target is sent to the players on it right now. Queues and widgets of a player
+// that leaves are dropped.
+//-----------------------------------------------------------------------------------------------//
+
+import { EVENT_ORDER_LAST, events } from './events';
+import { UIParams, getPlayersInTeam } from './index';
+import { timers } from './timers';
+import { UIHandle, widgets } from './widgets';
+
+export type NotificationChannel = mod.CustomNotificationSlots | 'GameMode';
+export type NotificationPolicy = 'replace' | 'enqueue' | 'ifIdle';
+
+export interface NotificationOptions {
+    priority?: number; // default 0; higher replaces lower and goes first in the queue
+    policy?: NotificationPolicy; // default 'replace'
+}
+
+export interface NotificationConfig {
+    gameModeSeconds: number; // how long showGameMode messages stay up, like the world log
+    maxQueueLength: number; // per player and channel; the lowest-priority message is dropped beyond it
+}
+
+const NOTIFICATION_DEFAULT_CONFIG: NotificationConfig = {
+    gameModeSeconds: 6,
+    maxQueueLength: 8,
+};
+
+class Notification {
+    constructor(public id: number, public msg: mod.Message, public durationTicks: number, public priority: number) {}
+}
+
+class NotificationQueue {
+    public current: Notification | undefined;
+    public handle: UIHandle<'Text'> | undefined;
+    public timerId = -1;
+    public queued: Notification[] = []; // by priority, then arrival
+
+    constructor(public player: mod.Player, public channel: NotificationChannel) {}
+}
+
+// The look of the old DisplayCustomNotificationMessage / ShowEventGameModeMessage widgets.
+function __notificationParams(channel: NotificationChannel): Partial<UIParams> {
+    const base: Partial<UIParams> = {
+        anchor: mod.UIAnchor.TopRight,
+        padding: 8,
+        bgColor: [1, 1, 1],
+        bgAlpha: 1,
+        bgFill: mod.UIBgFill.Blur,
+        textAnchor: mod.UIAnchor.Center,
+    };
+    if (channel === 'GameMode') {
+        return { ...base, position: [0, 0], size: [2500, 80], anchor: mod.UIAnchor.TopCenter, textSize: 30 };
+    }
+    if (channel === mod.CustomNotificationSlots.HeaderText) {
+        return { ...base, position: [50, 250 + channel * (40 + 5)], size: [250, 60], textSize: 30 };
+    }
+    return { ...base, position: [85, 270 + channel * (40 + 3)], size: [125, 40], textSize: 20 };
+}
+
+export function notificationWidgetName(channel: NotificationChannel): string {
+    return channel === 'GameMode' ? 'GameModeMessage' : 'CustomNotification' + channel;
+}
+
+export class NotificationService {
+    private config: NotificationConfig;
+    private nextId = 1;
+    private byPlayer = new Map<number, Map<NotificationChannel, NotificationQueue>>(); // player ObjId -> channel -> queue
+
+    constructor(config: Partial<NotificationConfig> = {}) {
+        this.config = { ...NOTIFICATION_DEFAULT_CONFIG, ...config };
+    }
+
+    configure(changes: Partial<NotificationConfig>) {
+        this.config = { ...this.config, ...changes };
+    }
+
+    // To a player, to everybody on a team, or (no target) to everybody; returns how many players
+    // got it shown or queued.
+    show(msg: mod.Message, slot: NotificationChannel, seconds: number, target?: mod.Player | mod.Team, options: NotificationOptions = {}): number {
+        let n = 0;
+        for (const player of this.playersOf(target)) {
+            if (this.post(player, slot, msg, seconds, options)) n++;
+        }
+        return n;
+    }
+
+    showGameMode(msg: mod.Message, target?: mod.Player | mod.Team, options: NotificationOptions = {}): number {
+        return this.show(msg, 'GameMode', this.config.gameModeSeconds, target, options);
+    }
+
+    // One player's channel; false if the message was dropped.
+    post(player: mod.Player, channel: NotificationChannel, msg: mod.Message, seconds: number, options: NotificationOptions = {}): boolean {
+        if (!mod.IsPlayerValid(player)) return false;
+        const queue = this.queueOf(player, channel, true) as NotificationQueue;
+        const note = new Notification(this.nextId++, msg, timers.secondsToTicks(seconds), options.priority ?? 0);
+        const current = queue.current;
+
+        if (!current) {
+            this.display(queue, note);
+            return true;
+        }
+        const policy = options.policy ?? 'replace';
+        if (policy === 'ifIdle') return false;
+        if (policy === 'replace' && note.priority >= current.priority) {
+            this.display(queue, note);
+            return true;
+        }
+        return this.enqueue(queue, note);
+    }
+
+    // The slot's message and everything queued behind it.
+    clear(slot: NotificationChannel, target?: mod.Player | mod.Team) {
+        for (const player of this.playersOf(target)) {
+            const queue = this.queueOf(player, slot, false);
+            if (queue) this.drop(queue);
+        }
+    }
+
+    // Ends the slot's message early and shows the next queued one.
+    skip(slot: NotificationChannel, target?: mod.Player | mod.Team) {
+        for (const player of this.playersOf(target)) {
+            const queue = this.queueOf(player, slot, false);
+            if (queue && queue.current) this.expire(queue, queue.current);
+        }
+    }
+
+    // Every channel of a player.
+    clearAll(player: mod.Player) {
+        const channels = this.byPlayer.get(mod.GetObjId(player));
+        if (channels) Array.from(channels.values()).forEach((queue) => this.drop(queue));
+    }
+
+    isShowing(player: mod.Player, channel: NotificationChannel): boolean {
+        const queue = this.queueOf(player, channel, false);
+        return queue !== undefined && queue.current !== undefined;
+    }
+
+    queuedCount(player: mod.Player, channel: NotificationChannel): number {
+        const queue = this.queueOf(player, channel, false);
+        return queue ? queue.queued.length : 0;
+    }
+
+    onPlayerLeaveGame(playerObjId: number) {
+        const channels = this.byPlayer.get(playerObjId);
+        if (!channels) return;
+        // the widgets and the owned timers go with the player
+        channels.forEach((queue) => {
+            queue.current = undefined;
+            queue.queued = [];
+        });
+        this.byPlayer.delete(playerObjId);
+    }
+
+    private playersOf(target?: mod.Player | mod.Team): mod.Player[] {
+        if (target) {
+            if (mod.IsType(target, mod.Types.Team)) return getPlayersInTeam(target as mod.Team);
+            return [target as mod.Player];
+        }
+        const players: mod.Player[] = [];
+        const allPlayers = mod.AllPlayers();
+        const n = mod.CountOf(allPlayers);
+        for (let i = 0; i < n; i++) players.push(mod.ValueInArray(allPlayers, i) as mod.Player);
+        return players;
+    }
+
+    private queueOf(player: mod.Player, channel: NotificationChannel, create: boolean): NotificationQueue | undefined {
+        const playerId = mod.GetObjId(player);
+        let channels = this.byPlayer.get(playerId);
+        if (!channels) {
+            if (!create) return undefined;
+            channels = new Map();
+            this.byPlayer.set(playerId, channels);
+        }
+        let queue = channels.get(channel);
+        if (!queue && create) {
+            queue = new NotificationQueue(player, channel);
+            channels.set(channel, queue);
+        }
+        return queue;
+    }
+
+    private enqueue(queue: NotificationQueue, note: Notification): boolean {
+        const queued = queue.queued;
+        let idx = queued.length;
+        while (idx > 0 && queued[idx - 1].priority < note.priority) idx--;
+        if (idx >= this.config.maxQueueLength) return false;
+        queued.splice(idx, 0, note);
+        if (queued.length > this.config.maxQueueLength) queued.pop();
+        return true;
+    }
+
+    private display(queue: NotificationQueue, note: Notification) {
+        this.hide(queue);
+        queue.current = note;
+        queue.handle = widgets.create({
+            ...__notificationParams(queue.channel),
+            type: 'Text',
+            name: notificationWidgetName(queue.channel),
+            textLabel: note.msg,
+            playerId: queue.player,
+        });
+        if (note.durationTicks > 0) {
+            queue.timerId = timers.afterTicks(note.durationTicks, () => this.expire(queue, note), { player: queue.player, keepOnDeath: true });
+        }
+    }
+
+    private expire(queue: NotificationQueue, note: Notification) {
+        if (queue.current !== note) return;
+        this.hide(queue);
+        const next = queue.queued.shift();
+        if (next) this.display(queue, next);
+    }
+
+    private hide(queue: NotificationQueue) {
+        if (queue.timerId >= 0) timers.cancel(queue.timerId);
+        queue.timerId = -1;
+        if (queue.handle) queue.handle.destroy();
+        queue.handle = undefined;
+        queue.current = undefined;
+    }
+
+    private drop(queue: NotificationQueue) {
+        queue.queued = [];
+        this.hide(queue);
+    }
+}
+
+export const notifications = new NotificationService();
+
+events.on('OnPlayerLeaveGame', (objId) => notifications.onPlayerLeaveGame(objId), { module: 'Notifications', order: EVENT_ORDER_LAST });
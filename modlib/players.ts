@@ -0,0 +1,274 @@
+//-----------------------------------------------------------------------------------------------//
+// Player registry: one ServerPlayer per connected player, keyed by ObjId, shared by every tool.
+//
+// The registry registers itself with modlib.events, so with copy-paste/EventExports.ts it is
+// kept up to date without any wiring:
+//   join / leave, deploy / undeploy, death, man-down / revive, team switch.
+// Players already in the match before the script started are picked up by OngoingPlayer.
+//
+// Tools attach their own per-player state with data slots instead of keeping maps of their own:
+//   const kills = modlib.players.createSlot('kills', () => 0);
+//   kills.set(sp, kills.get(sp) + 1);
+// Slots are cleared when the player leaves, and `leave` listeners run before that, so nothing
+// keeps a stale mod.Player around.
+//-----------------------------------------------------------------------------------------------//
+
+import { EVENT_ORDER_FIRST, EVENT_ORDER_LAST, events } from './events';
+
+export type PlayerEvent = 'join' | 'leave' | 'deploy' | 'undeploy' | 'died' | 'mandown' | 'revived' | 'teamSwitch';
+
+export class ServerPlayer {
+    public isAI = false;
+    public teamId = -1;
+    public previousTeamId = -1; // team before the last teamSwitch
+    public isDeployed = false;
+    public isManDown = false;
+    public hasLeft = false;
+
+    public slots: unknown[] = [];
+    private squad: mod.Squad | undefined = undefined;
+
+    constructor(public player: mod.Player, public readonly id: number) {}
+
+    isValid(): boolean {
+        return !this.hasLeft && mod.IsPlayerValid(this.player);
+    }
+
+    // Deployed, not man-down and alive.
+    isAlive(): boolean {
+        return this.isDeployed && !this.isManDown && this.isValid() && mod.GetSoldierState(this.player, mod.SoldierStateBool.IsAlive);
+    }
+
+    // Looked up on first use and cached until the next deploy or team switch.
+    getSquad(): mod.Squad {
+        if (this.squad === undefined) this.squad = mod.GetSquad(this.player);
+        return this.squad;
+    }
+
+    forgetSquad() {
+        this.squad = undefined;
+    }
+}
+
+// Typed per-player value. get() creates it with `init` the first time.
+export class PlayerSlot<T> {
+    constructor(
+        public readonly index: number,
+        public readonly name: string,
+        private init: (sp: ServerPlayer) => T,
+        private cleanup?: (value: T, sp: ServerPlayer) => void
+    ) {}
+
+    get(sp: ServerPlayer): T {
+        if (sp.slots.length <= this.index || sp.slots[this.index] === undefined) sp.slots[this.index] = this.init(sp);
+        return sp.slots[this.index] as T;
+    }
+
+    peek(sp: ServerPlayer): T | undefined {
+        return sp.slots[this.index] as T | undefined;
+    }
+
+    set(sp: ServerPlayer, value: T) {
+        sp.slots[this.index] = value;
+    }
+
+    // Runs the cleanup callback (if the slot was set) and unsets it.
+    clear(sp: ServerPlayer) {
+        const value = sp.slots[this.index];
+        if (value === undefined) return;
+        sp.slots[this.index] = undefined;
+        if (this.cleanup) this.cleanup(value as T, sp);
+    }
+}
+
+type PlayerCallback = (sp: ServerPlayer) => void;
+
+class PlayerListener {
+    constructor(public id: number, public event: PlayerEvent, public fn: PlayerCallback) {}
+}
+
+export class PlayerRegistry {
+    private byId = new Map<number, ServerPlayer>();
+    private list: ServerPlayer[] = [];
+
+    private slotList: PlayerSlot<any>[] = [];
+
+    private nextListenerId = 1;
+    private listeners: PlayerListener[] = [];
+
+    get(id: number): ServerPlayer | undefined {
+        return this.byId.get(id);
+    }
+
+    find(player: mod.Player): ServerPlayer | undefined {
+        return this.byId.get(mod.GetObjId(player));
+    }
+
+    has(id: number): boolean {
+        return this.byId.has(id);
+    }
+
+    count(): number {
+        return this.list.length;
+    }
+
+    // The live list; don't modify it, and copy it if players may leave while you iterate.
+    all(): readonly ServerPlayer[] {
+        return this.list;
+    }
+
+    forEach(fn: (sp: ServerPlayer) => void) {
+        const list = this.list.slice();
+        for (let i = 0; i < list.length; i++) fn(list[i]);
+    }
+
+    // Returns the record for a player, creating it (and firing `join`) if this is the first sighting.
+    track(player: mod.Player): ServerPlayer {
+        const id = mod.GetObjId(player);
+        let sp = this.byId.get(id);
+        if (sp) {
+            sp.player = player; // keep the reference fresh
+            return sp;
+        }
+
+        sp = new ServerPlayer(player, id);
+        sp.isAI = mod.GetSoldierState(player, mod.SoldierStateBool.IsAISoldier);
+        sp.teamId = mod.GetObjId(mod.GetTeam(player));
+        sp.isDeployed = mod.GetSoldierState(player, mod.SoldierStateBool.IsAlive);
+        this.byId.set(id, sp);
+        this.list.push(sp);
+
+        this.emit('join', sp);
+        return sp;
+    }
+
+    createSlot<T>(name: string, init: (sp: ServerPlayer) => T, cleanup?: (value: T, sp: ServerPlayer) => void): PlayerSlot<T> {
+        const slot = new PlayerSlot<T>(this.slotList.length, name, init, cleanup);
+        this.slotList.push(slot);
+        return slot;
+    }
+
+    // fn(sp) for one lifecycle event; `leave` is the place to drop anything holding sp.player.
+    // Returns an id for off().
+    on(event: PlayerEvent, fn: PlayerCallback): number {
+        const id = this.nextListenerId++;
+        this.listeners.push(new PlayerListener(id, event, fn));
+        return id;
+    }
+
+    off(id: number): boolean {
+        const idx = this.listeners.findIndex((l) => l.id === id);
+        if (idx < 0) return false;
+        this.listeners.splice(idx, 1);
+        return true;
+    }
+
+    private emit(event: PlayerEvent, sp: ServerPlayer) {
+        const listeners = this.listeners;
+        for (let i = 0; i < listeners.length; i++) {
+            if (listeners[i].event !== event) continue;
+            try {
+                listeners[i].fn(sp);
+            } catch (e) {
+                console.error(`players '${event}' listener failed for player ${sp.id}: ${e}`);
+            }
+        }
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Event forwarding
+    //-------------------------------------------------------------------------------------------//
+
+    onPlayerJoinGame(player: mod.Player) {
+        if (mod.IsPlayerValid(player)) this.track(player);
+    }
+
+    onOngoingPlayer(player: mod.Player) {
+        if (!this.byId.has(mod.GetObjId(player)) && mod.IsPlayerValid(player)) this.track(player);
+    }
+
+    onPlayerLeaveGame(playerObjId: number) {
+        const sp = this.byId.get(playerObjId);
+        if (!sp) return;
+
+        this.emit('leave', sp);
+        for (let i = 0; i < this.slotList.length; i++) this.slotList[i].clear(sp);
+
+        sp.hasLeft = true;
+        sp.isDeployed = false;
+        sp.isManDown = false;
+        sp.slots = [];
+        this.byId.delete(playerObjId);
+
+        // swap-remove; order of all() is not meaningful
+        const idx = this.list.indexOf(sp);
+        const last = this.list.pop() as ServerPlayer;
+        if (idx >= 0 && last !== sp) this.list[idx] = last;
+    }
+
+    onPlayerDeployed(player: mod.Player) {
+        if (!mod.IsPlayerValid(player)) return;
+        const sp = this.track(player);
+        sp.isDeployed = true;
+        sp.isManDown = false;
+        sp.isAI = mod.GetSoldierState(player, mod.SoldierStateBool.IsAISoldier);
+        sp.teamId = mod.GetObjId(mod.GetTeam(player));
+        sp.forgetSquad();
+        this.emit('deploy', sp);
+    }
+
+    onPlayerUndeploy(player: mod.Player) {
+        if (!mod.IsPlayerValid(player)) return;
+        const sp = this.track(player);
+        sp.isDeployed = false;
+        sp.isManDown = false;
+        this.emit('undeploy', sp);
+    }
+
+    onPlayerDied(player: mod.Player) {
+        if (!mod.IsPlayerValid(player)) return;
+        const sp = this.track(player);
+        sp.isDeployed = false;
+        sp.isManDown = false;
+        this.emit('died', sp);
+    }
+
+    onMandown(player: mod.Player) {
+        if (!mod.IsPlayerValid(player)) return;
+        const sp = this.track(player);
+        sp.isManDown = true;
+        this.emit('mandown', sp);
+    }
+
+    onRevived(player: mod.Player) {
+        if (!mod.IsPlayerValid(player)) return;
+        const sp = this.track(player);
+        sp.isManDown = false;
+        this.emit('revived', sp);
+    }
+
+    onPlayerSwitchTeam(player: mod.Player, team: mod.Team) {
+        if (!mod.IsPlayerValid(player)) return;
+        const sp = this.track(player);
+        const teamId = mod.GetObjId(team);
+        if (teamId === sp.teamId) return;
+        sp.previousTeamId = sp.teamId;
+        sp.teamId = teamId;
+        sp.forgetSquad();
+        this.emit('teamSwitch', sp);
+    }
+}
+
+export const players = new PlayerRegistry();
+
+const __playersEventOptions = { module: 'PlayerRegistry', order: EVENT_ORDER_FIRST };
+events.on('OnPlayerJoinGame', (player) => players.onPlayerJoinGame(player), __playersEventOptions);
+events.on('OngoingPlayer', (player) => players.onOngoingPlayer(player), __playersEventOptions);
+events.on('OnPlayerDeployed', (player) => players.onPlayerDeployed(player), __playersEventOptions);
+events.on('OnPlayerUndeploy', (player) => players.onPlayerUndeploy(player), __playersEventOptions);
+events.on('OnPlayerDied', (player) => players.onPlayerDied(player), __playersEventOptions);
+events.on('OnMandown', (player) => players.onMandown(player), __playersEventOptions);
+events.on('OnRevived', (player) => players.onRevived(player), __playersEventOptions);
+events.on('OnPlayerSwitchTeam', (player, team) => players.onPlayerSwitchTeam(player, team), __playersEventOptions);
+// last, so other OnPlayerLeaveGame handlers can still look the player up
+events.on('OnPlayerLeaveGame', (objId) => players.onPlayerLeaveGame(objId), { module: 'PlayerRegistry', order: EVENT_ORDER_LAST });
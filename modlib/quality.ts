@@ -0,0 +1,53 @@
+//-----------------------------------------------------------------------------------------------//
+// Quality knobs: optional work that tools scale down while the server falls behind.
+//
+//   modlib.quality.registerKnob('DamageSmoothing', (level) => damageSmoother.setLoadLevel(level));
+//   modlib.quality.setLevel('strained'); // PerfThrottles' LoadGovernor does this on every change
+//
+// The copy-paste blocks only share modlib, so a block registers its knob here and works the same
+// with or without PerfThrottles pasted; without a governor the level stays 'normal'. A knob is
+// called once when registered (if the level isn't 'normal') and on every change after that.
+//-----------------------------------------------------------------------------------------------//
+
+export type QualityLevel = 'normal' | 'strained' | 'critical';
+export type QualityKnob = (level: QualityLevel, previous: QualityLevel) => void;
+
+export class QualityKnobs {
+    private level: QualityLevel = 'normal';
+    private knobs = new Map<string, QualityKnob>();
+
+    // Registering a name again replaces its knob.
+    registerKnob(name: string, knob: QualityKnob) {
+        this.knobs.set(name, knob);
+        if (this.level !== 'normal') this.apply(name, knob, 'normal');
+    }
+
+    unregisterKnob(name: string): boolean {
+        return this.knobs.delete(name);
+    }
+
+    knobNames(): string[] {
+        return Array.from(this.knobs.keys());
+    }
+
+    getLevel(): QualityLevel {
+        return this.level;
+    }
+
+    setLevel(level: QualityLevel) {
+        const previous = this.level;
+        if (level === previous) return;
+        this.level = level;
+        this.knobs.forEach((knob, name) => this.apply(name, knob, previous));
+    }
+
+    private apply(name: string, knob: QualityKnob, previous: QualityLevel) {
+        try {
+            knob(this.level, previous);
+        } catch (e) {
+            console.error(`quality knob '${name}' failed: ${e}`);
+        }
+    }
+}
+
+export const quality = new QualityKnobs();
@@ -0,0 +1,213 @@
+//-----------------------------------------------------------------------------------------------//
+// Block rules: rule-editor rules (event, conditions, actions) declared as data and run through
+// modlib.events.
+//
+//   modlib.rules.add({
+//       name: 'Spawn_Protection',
+//       event: 'OngoingPlayer',
+//       conditions: [(player) => IsInHQ(player), (player) => !IsProtected(player)],
+//       actions: [(player) => SetProtected(player, true), () => mod.Wait(3), (player) => SetProtected(player, false)],
+//   });
+//   modlib.rules.addHandlers({ OngoingGlobal_Score_tracker, OnPlayerDeployed_Spawn_Protection });
+//   modlib.rules.setEnabled('Spawn_Protection', false);
+//
+// Rules of one event run in declaration order, with the editor's semantics:
+//   - conditions are ANDed; no conditions = always true
+//   - Ongoing rules fire when their conditions become true: one ConditionState per rule and event
+//     object (`edge` configures hold / debounce / cooldown). Without conditions they fire every tick.
+//   - other rules fire every time the event comes in and the conditions hold
+//   - actions run in order; one that returns a promise (mod.Wait) holds back the rest. An Ongoing
+//     rule doesn't fire again for the same object until its actions are done.
+// A rule that throws is logged and the next one still runs. Disabling a rule stops it after the
+// action it is waiting on and resets its conditions.
+//-----------------------------------------------------------------------------------------------//
+
+import { EVENT_ORDER_LAST, ModEventArgs, ModEventHandler, ModEventName, events, isModEventName } from './events';
+import { ConditionOptions, ConditionState } from './index';
+
+export type RuleCondition<E extends ModEventName> = (...args: ModEventArgs<E>) => boolean;
+export type RuleAction<E extends ModEventName> = (...args: ModEventArgs<E>) => void | Promise<void>;
+
+export interface RuleSpec<E extends ModEventName> {
+    name: string;
+    event: E;
+    conditions?: RuleCondition<E>[];
+    actions: RuleAction<E>[];
+    enabled?: boolean; // default true
+    edge?: Partial<ConditionOptions>; // Ongoing rules: when the conditions count as "became true"
+}
+
+class BlockRule {
+    public states = new Map<number, ConditionState>(); // event object ObjId (-1 = global) -> state
+    public running = new Set<number>(); // Ongoing objects whose actions are waiting
+
+    constructor(
+        public name: string,
+        public event: ModEventName,
+        public conditions: ((...args: any[]) => boolean)[],
+        public actions: ((...args: any[]) => void | Promise<void>)[],
+        public enabled: boolean,
+        public edge: Partial<ConditionOptions>,
+        public ongoing: boolean
+    ) {}
+}
+
+export class RuleEngine {
+    private byName = new Map<string, BlockRule>();
+    private byEvent = new Map<ModEventName, BlockRule[]>();
+    private handlerIds = new Map<ModEventName, number>(); // event -> modlib.events handler
+
+    add<E extends ModEventName>(spec: RuleSpec<E>) {
+        if (this.byName.has(spec.name)) throw new Error(`rules: '${spec.name}' is already defined`);
+        if (!isModEventName(spec.event)) throw new Error(`rules: '${spec.name}' has an unknown event '${spec.event}'`);
+        const rule = new BlockRule(
+            spec.name,
+            spec.event,
+            (spec.conditions ?? []).slice(),
+            spec.actions.slice(),
+            spec.enabled ?? true,
+            spec.edge ?? {},
+            spec.event.startsWith('Ongoing')
+        );
+        this.byName.set(rule.name, rule);
+
+        // copy on write, like modlib.events
+        this.byEvent.set(rule.event, (this.byEvent.get(rule.event) ?? []).concat(rule));
+        if (!this.handlerIds.has(rule.event)) {
+            const event = rule.event;
+            const handler = (...args: any[]) => this.dispatch(event, args);
+            this.handlerIds.set(event, events.on(event, handler as ModEventHandler<typeof event>, { module: 'Rules' }));
+        }
+    }
+
+    // Converted `<Event>_<RuleName>` functions, each a rule without conditions named after its key.
+    addHandlers(handlers: { [name: string]: (...args: any[]) => void | Promise<void> }) {
+        for (const name of Object.keys(handlers)) {
+            const idx = name.indexOf('_');
+            const event = idx > 0 ? name.slice(0, idx) : '';
+            if (!isModEventName(event)) throw new Error(`rules: '${name}' isn't named <Event>_<RuleName> with a known event`);
+            this.add({ name, event, actions: [handlers[name]] });
+        }
+    }
+
+    remove(name: string): boolean {
+        const rule = this.byName.get(name);
+        if (!rule) return false;
+        rule.enabled = false;
+        this.byName.delete(name);
+
+        const list = (this.byEvent.get(rule.event) ?? []).filter((r) => r !== rule);
+        if (list.length > 0) {
+            this.byEvent.set(rule.event, list);
+        } else {
+            this.byEvent.delete(rule.event);
+            events.off(this.handlerIds.get(rule.event) as number);
+            this.handlerIds.delete(rule.event);
+        }
+        return true;
+    }
+
+    setEnabled(name: string, enabled: boolean) {
+        const rule = this.byName.get(name);
+        if (!rule || rule.enabled === enabled) return;
+        rule.enabled = enabled;
+        if (!enabled) rule.states.clear();
+    }
+
+    isEnabled(name: string): boolean {
+        const rule = this.byName.get(name);
+        return rule !== undefined && rule.enabled;
+    }
+
+    has(name: string): boolean {
+        return this.byName.has(name);
+    }
+
+    // Rule names in declaration order, of one event or all of them.
+    names(event?: ModEventName): string[] {
+        if (event) return (this.byEvent.get(event) ?? []).map((rule) => rule.name);
+        return Array.from(this.byName.keys());
+    }
+
+    // Back to "conditions false" for one rule or all of them, e.g. between rounds.
+    reset(name?: string) {
+        if (name === undefined) this.byName.forEach((rule) => rule.states.clear());
+        else this.byName.get(name)?.states.clear();
+    }
+
+    // Drops the Ongoing states of an object that is gone.
+    forgetObject(objId: number) {
+        this.byName.forEach((rule) => {
+            rule.states.delete(objId);
+            rule.running.delete(objId);
+        });
+    }
+
+    private dispatch(event: ModEventName, args: any[]) {
+        const list = this.byEvent.get(event);
+        if (!list) return;
+        for (const rule of list) {
+            if (!rule.enabled) continue;
+            try {
+                this.run(rule, args);
+            } catch (e) {
+                console.error(`rule '${rule.name}' failed: ${e}`);
+            }
+        }
+    }
+
+    private run(rule: BlockRule, args: any[]) {
+        if (!rule.ongoing) {
+            if (this.check(rule, args)) this.act(rule, args, -1);
+            return;
+        }
+
+        const id = rule.event === 'OngoingGlobal' ? -1 : mod.GetObjId(args[0]);
+        if (rule.conditions.length === 0) {
+            if (!rule.running.has(id)) this.act(rule, args, id);
+            return;
+        }
+        let state = rule.states.get(id);
+        if (!state) {
+            state = new ConditionState(rule.edge);
+            rule.states.set(id, state);
+        }
+        if (state.update(this.check(rule, args)) && !rule.running.has(id)) this.act(rule, args, id);
+    }
+
+    private check(rule: BlockRule, args: any[]): boolean {
+        for (const condition of rule.conditions) {
+            if (!condition(...args)) return false;
+        }
+        return true;
+    }
+
+    // Runs synchronously up to the first action that returns a promise.
+    private act(rule: BlockRule, args: any[], id: number) {
+        for (let i = 0; i < rule.actions.length; i++) {
+            const result = rule.actions[i](...args);
+            if (result && typeof result.then === 'function') {
+                if (rule.ongoing) rule.running.add(id);
+                this.resume(rule, args, id, result, i + 1);
+                return;
+            }
+        }
+    }
+
+    private async resume(rule: BlockRule, args: any[], id: number, pending: Promise<void>, from: number) {
+        try {
+            await pending;
+            for (let i = from; i < rule.actions.length && rule.enabled; i++) await rule.actions[i](...args);
+        } catch (e) {
+            console.error(`rule '${rule.name}' failed: ${e}`);
+        } finally {
+            if (rule.ongoing) rule.running.delete(id);
+        }
+    }
+}
+
+export const rules = new RuleEngine();
+
+const __ruleCleanupOptions = { module: 'Rules', order: EVENT_ORDER_LAST };
+events.on('OnPlayerLeaveGame', (objId) => rules.forgetObject(objId), __ruleCleanupOptions);
+events.on('OnVehicleDestroyed', (vehicle) => rules.forgetObject(mod.GetObjId(vehicle)), __ruleCleanupOptions);
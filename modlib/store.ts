@@ -0,0 +1,260 @@
+//-----------------------------------------------------------------------------------------------//
+// Game-variable store: named, typed keys over mod.GlobalVariable / mod.ObjectVariable.
+//
+//   const GameOngoing = modlib.store.global('GameOngoing', false);
+//   const TeamScore = modlib.store.team('TeamScore', 0);
+//   const Revives = modlib.store.player('Revives', 0, { index: 2 }); // the rule editor's player variable 2
+//   if (GameOngoing.get()) TeamScore.update(team, (score) => score + 1);
+//   Revives.onChange((revives, before, player) => UpdateScoreboard(player));
+//   console.log('[store] ' + modlib.store.exportJSON());
+//
+// Global, team and player variables are numbered separately, like in the rule editor; a key takes
+// the next free index of its scope unless `index` is given.
+//
+// Values live in the game variables, so block logic using the same index sees them, and reads
+// always go to the variable: a value the block editor set is never overwritten. Rule-editor
+// variables start out as 0 / false rather than empty, so initial values are written explicitly:
+//   - store.seedDefaults() (OnGameModeStarted): global keys, team keys for the teams that have
+//     players (or the teams passed in) and player keys for everyone in the match;
+//   - player keys for each player that joins, before other handlers see them;
+//   - key.init() / key.init(owner), e.g. for a team nobody is on yet.
+// A read that finds nothing in the variable also writes the initial value. Listeners only hear
+// about writes made through the store, compared with ===.
+//-----------------------------------------------------------------------------------------------//
+
+import { EVENT_ORDER_FIRST, EVENT_ORDER_LAST, events } from './events';
+
+export type StoreScope = 'global' | 'team' | 'player';
+
+export interface StoreKeyOptions {
+    index?: number; // variable index in its scope; default: the next free one
+}
+
+export type StoreListener<T, O> = (value: T, previous: T, owner: O) => void;
+
+type StoreOwner = mod.Team | mod.Player | undefined;
+
+class StoreSlot<T> {
+    public listeners: StoreListener<T, any>[] = [];
+    public owners = new Map<number, StoreOwner>(); // used: ObjId (-1 = global) -> owner, for snapshot()
+
+    constructor(public name: string, public scope: StoreScope, public index: number, public initial: T) {}
+}
+
+// Also remembers the owner for snapshot().
+function __storeVariable<T>(slot: StoreSlot<T>, owner: StoreOwner): mod.Variable {
+    slot.owners.set(owner ? mod.GetObjId(owner) : -1, owner);
+    if (slot.scope === 'global') return mod.GlobalVariable(slot.index);
+    return mod.ObjectVariable(owner as mod.Object, slot.index);
+}
+
+function __storeInit<T>(slot: StoreSlot<T>, owner: StoreOwner) {
+    mod.SetVariable(__storeVariable(slot, owner), slot.initial);
+}
+
+// The variable's value; the initial value (written back) if it holds nothing yet.
+function __storeRead<T>(slot: StoreSlot<T>, owner: StoreOwner): T {
+    const value = mod.GetVariable(__storeVariable(slot, owner));
+    if (value !== undefined && value !== null) return value as T;
+    __storeInit(slot, owner);
+    return slot.initial;
+}
+
+function __storeWrite<T>(slot: StoreSlot<T>, owner: StoreOwner, value: T) {
+    const previous = __storeRead(slot, owner);
+    mod.SetVariable(__storeVariable(slot, owner), value);
+    if (previous === value) return;
+    for (const listener of slot.listeners.slice()) {
+        try {
+            listener(value, previous, owner);
+        } catch (e) {
+            console.error(`store listener for '${slot.name}' failed: ${e}`);
+        }
+    }
+}
+
+function __storeListen<T>(slot: StoreSlot<T>, listener: StoreListener<T, any>): () => void {
+    slot.listeners.push(listener);
+    return () => {
+        const idx = slot.listeners.indexOf(listener);
+        if (idx >= 0) slot.listeners.splice(idx, 1);
+    };
+}
+
+export class GlobalStoreKey<T> {
+    constructor(private slot: StoreSlot<T>) {}
+
+    get name(): string {
+        return this.slot.name;
+    }
+
+    get index(): number {
+        return this.slot.index;
+    }
+
+    get(): T {
+        return __storeRead(this.slot, undefined);
+    }
+
+    set(value: T) {
+        __storeWrite(this.slot, undefined, value);
+    }
+
+    update(fn: (value: T) => T): T {
+        const value = fn(this.get());
+        this.set(value);
+        return value;
+    }
+
+    reset() {
+        this.set(this.slot.initial);
+    }
+
+    // Writes the initial value without telling listeners, e.g. on OnGameModeStarted.
+    init() {
+        __storeInit(this.slot, undefined);
+    }
+
+    // Returns a function that removes the listener.
+    onChange(listener: StoreListener<T, undefined>): () => void {
+        return __storeListen(this.slot, listener);
+    }
+}
+
+export class ObjectStoreKey<O extends mod.Team | mod.Player, T> {
+    constructor(private slot: StoreSlot<T>) {}
+
+    get name(): string {
+        return this.slot.name;
+    }
+
+    get index(): number {
+        return this.slot.index;
+    }
+
+    get(owner: O): T {
+        return __storeRead(this.slot, owner);
+    }
+
+    set(owner: O, value: T) {
+        __storeWrite(this.slot, owner, value);
+    }
+
+    update(owner: O, fn: (value: T) => T): T {
+        const value = fn(this.get(owner));
+        this.set(owner, value);
+        return value;
+    }
+
+    reset(owner: O) {
+        this.set(owner, this.slot.initial);
+    }
+
+    init(owner: O) {
+        __storeInit(this.slot, owner);
+    }
+
+    onChange(listener: StoreListener<T, O>): () => void {
+        return __storeListen(this.slot, listener);
+    }
+}
+
+export class GameStore {
+    private slots: StoreSlot<any>[] = [];
+    private byName = new Map<string, StoreSlot<any>>();
+
+    global<T>(name: string, initial: T, options: StoreKeyOptions = {}): GlobalStoreKey<T> {
+        return new GlobalStoreKey<T>(this.define('global', name, initial, options));
+    }
+
+    team<T>(name: string, initial: T, options: StoreKeyOptions = {}): ObjectStoreKey<mod.Team, T> {
+        return new ObjectStoreKey<mod.Team, T>(this.define('team', name, initial, options));
+    }
+
+    player<T>(name: string, initial: T, options: StoreKeyOptions = {}): ObjectStoreKey<mod.Player, T> {
+        return new ObjectStoreKey<mod.Player, T>(this.define('player', name, initial, options));
+    }
+
+    has(name: string): boolean {
+        return this.byName.has(name);
+    }
+
+    // Writes every initial value: global keys, team keys for `teams` (default: the teams of the
+    // players in the match) and player keys for every player in the match.
+    seedDefaults(teams?: mod.Team[]) {
+        const players: mod.Player[] = [];
+        const allPlayers = mod.AllPlayers();
+        const n = mod.CountOf(allPlayers);
+        for (let i = 0; i < n; i++) players.push(mod.ValueInArray(allPlayers, i) as mod.Player);
+        if (!teams) {
+            const byId = new Map<number, mod.Team>();
+            for (const player of players) {
+                const team = mod.GetTeam(player);
+                byId.set(mod.GetObjId(team), team);
+            }
+            teams = Array.from(byId.values());
+        }
+
+        for (const slot of this.slots) {
+            if (slot.scope === 'global') __storeInit(slot, undefined);
+            else if (slot.scope === 'team') teams.forEach((team) => __storeInit(slot, team));
+            else players.forEach((player) => __storeInit(slot, player));
+        }
+    }
+
+    // A joining player's variables hold nothing of theirs yet, so their keys start at the initial values.
+    onPlayerJoinGame(player: mod.Player) {
+        for (const slot of this.slots) {
+            if (slot.scope === 'player') __storeInit(slot, player);
+        }
+    }
+
+    // Every value read or written so far: 'Name' for globals, 'Name[objId]' for teams / players. Values
+    // that aren't numbers, booleans or strings are given as String(value).
+    snapshot(): Record<string, number | boolean | string> {
+        const result: Record<string, number | boolean | string> = {};
+        for (const slot of this.slots) {
+            slot.owners.forEach((owner, id) => {
+                const value = mod.GetVariable(__storeVariable(slot, owner));
+                const key = slot.scope === 'global' ? slot.name : `${slot.name}[${id}]`;
+                result[key] = typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string' ? value : String(value);
+            });
+        }
+        return result;
+    }
+
+    exportJSON(): string {
+        return JSON.stringify(this.snapshot());
+    }
+
+    onPlayerLeaveGame(playerObjId: number) {
+        for (const slot of this.slots) {
+            if (slot.scope === 'player') slot.owners.delete(playerObjId);
+        }
+    }
+
+    private define<T>(scope: StoreScope, name: string, initial: T, options: StoreKeyOptions): StoreSlot<T> {
+        if (this.byName.has(name)) throw new Error(`store: '${name}' is already defined`);
+        const used = new Map<number, string>();
+        for (const slot of this.slots) {
+            if (slot.scope === scope) used.set(slot.index, slot.name);
+        }
+        let index = options.index;
+        if (index === undefined) {
+            index = 0;
+            while (used.has(index)) index++;
+        } else if (used.has(index)) {
+            throw new Error(`store: ${scope} variable ${index} is already used by '${used.get(index)}'`);
+        }
+
+        const slot = new StoreSlot<T>(name, scope, index, initial);
+        this.slots.push(slot);
+        this.byName.set(name, slot);
+        return slot;
+    }
+}
+
+export const store = new GameStore();
+
+events.on('OnPlayerJoinGame', (player) => store.onPlayerJoinGame(player), { module: 'Store', order: EVENT_ORDER_FIRST });
+events.on('OnPlayerLeaveGame', (objId) => store.onPlayerLeaveGame(objId), { module: 'Store', order: EVENT_ORDER_LAST });
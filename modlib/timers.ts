@@ -0,0 +1,288 @@
+//-----------------------------------------------------------------------------------------------//
+// Tick-based timers and cooldowns.
+//
+// Everything counts OngoingGlobal ticks (registered with modlib.events), so timers stay in step
+// with the 30 Hz loop instead of drifting with mod.Wait:
+//   const id = modlib.timers.after(3, () => Explode(), { player });   // cancelled if the player dies / leaves
+//   modlib.timers.every(1, () => TickBleed(player), { player });
+//   if (await modlib.timers.waitUntil(() => IsInZone(player), { timeoutTicks: 10 * 30 })) { ... }
+//   if (modlib.cooldowns.tryUse('dash', player, 8)) Dash(player);
+//
+// Timers owned by a player are cancelled when that player leaves or dies (keepOnDeath to survive
+// death). Cooldowns are only dropped when the player leaves.
+//-----------------------------------------------------------------------------------------------//
+
+import { EVENT_ORDER_FIRST, EVENT_ORDER_LAST, events } from './events';
+
+export interface TimerOptions {
+    player?: mod.Player; // owner: cancelled when this player leaves (or dies, see keepOnDeath)
+    keepOnDeath?: boolean;
+}
+
+export interface WaitOptions extends TimerOptions {
+    timeoutTicks?: number; // waitUntil resolves false after this long; default: no timeout
+}
+
+class Timer {
+    public cancelled = false;
+
+    constructor(
+        public id: number,
+        public dueTick: number,
+        public intervalTicks: number, // 0 = one-shot
+        public fn: () => void,
+        public ownerId: number, // -1 = none
+        public keepOnDeath: boolean,
+        public onCancel?: () => void
+    ) {}
+}
+
+export class TimerService {
+    private tickRate = 30;
+    private tickCount = 0;
+    private nextId = 1;
+
+    private queue: Timer[] = []; // sorted by dueTick, then id
+    private byId = new Map<number, Timer>();
+    private byOwner = new Map<number, Set<Timer>>();
+
+    setTickRate(tickRate: number) {
+        this.tickRate = tickRate;
+    }
+
+    // Ticks since the service started; the clock cooldowns use.
+    now(): number {
+        return this.tickCount;
+    }
+
+    secondsToTicks(seconds: number): number {
+        return seconds > 0 ? mod.RoundToInteger(seconds * this.tickRate) : 0;
+    }
+
+    after(seconds: number, fn: () => void, options: TimerOptions = {}): number {
+        return this.afterTicks(this.secondsToTicks(seconds), fn, options);
+    }
+
+    afterTicks(ticks: number, fn: () => void, options: TimerOptions = {}): number {
+        return this.add(ticks, 0, fn, options).id;
+    }
+
+    // First run one interval from now.
+    every(seconds: number, fn: () => void, options: TimerOptions = {}): number {
+        return this.everyTicks(this.secondsToTicks(seconds), fn, options);
+    }
+
+    everyTicks(ticks: number, fn: () => void, options: TimerOptions = {}): number {
+        const interval = ticks > 1 ? mod.RoundToInteger(ticks) : 1;
+        return this.add(interval, interval, fn, options).id;
+    }
+
+    cancel(id: number): boolean {
+        const timer = this.byId.get(id);
+        if (!timer) return false;
+        this.remove(timer);
+        if (timer.onCancel) timer.onCancel();
+        return true;
+    }
+
+    // Cancels every timer owned by a player (on death: all but keepOnDeath ones); returns how many.
+    cancelPlayer(playerObjId: number, onDeath = false): number {
+        const owned = this.byOwner.get(playerObjId);
+        if (!owned) return 0;
+        let n = 0;
+        for (const timer of Array.from(owned)) {
+            if (onDeath && timer.keepOnDeath) continue;
+            this.cancel(timer.id);
+            n++;
+        }
+        return n;
+    }
+
+    isActive(id: number): boolean {
+        return this.byId.has(id);
+    }
+
+    // Ticks until the timer next fires; -1 if it isn't active.
+    remainingTicks(id: number): number {
+        const timer = this.byId.get(id);
+        return timer ? timer.dueTick - this.tickCount : -1;
+    }
+
+    count(): number {
+        return this.byId.size;
+    }
+
+    // Resolves true after `ticks`, or false if the owning player left / died first.
+    waitTicks(ticks: number, options: TimerOptions = {}): Promise<boolean> {
+        return new Promise((resolve) => {
+            this.add(ticks, 0, () => resolve(true), options, () => resolve(false));
+        });
+    }
+
+    wait(seconds: number, options: TimerOptions = {}): Promise<boolean> {
+        return this.waitTicks(this.secondsToTicks(seconds), options);
+    }
+
+    // Checks `cond` every tick. Resolves true once it holds, false on timeout or when the owning
+    // player leaves / dies. A condition that already holds resolves on the next tick.
+    waitUntil(cond: () => boolean, options: WaitOptions = {}): Promise<boolean> {
+        return new Promise((resolve) => {
+            const deadline = options.timeoutTicks !== undefined ? this.tickCount + options.timeoutTicks : Infinity;
+            const timer = this.add(
+                1,
+                1,
+                () => {
+                    if (cond()) {
+                        this.remove(timer);
+                        resolve(true);
+                    } else if (this.tickCount >= deadline) {
+                        this.remove(timer);
+                        resolve(false);
+                    }
+                },
+                options,
+                () => resolve(false)
+            );
+        });
+    }
+
+    private add(ticks: number, intervalTicks: number, fn: () => void, options: TimerOptions, onCancel?: () => void): Timer {
+        const delay = ticks > 1 ? mod.RoundToInteger(ticks) : 1;
+        const ownerId = options.player ? mod.GetObjId(options.player) : -1;
+        const timer = new Timer(this.nextId++, this.tickCount + delay, intervalTicks, fn, ownerId, options.keepOnDeath ?? false, onCancel);
+
+        this.byId.set(timer.id, timer);
+        this.enqueue(timer);
+        if (ownerId >= 0) {
+            let owned = this.byOwner.get(ownerId);
+            if (!owned) {
+                owned = new Set();
+                this.byOwner.set(ownerId, owned);
+            }
+            owned.add(timer);
+        }
+        return timer;
+    }
+
+    // binary insert after every timer due on the same tick
+    private enqueue(timer: Timer) {
+        const queue = this.queue;
+        let lo = 0;
+        let hi = queue.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (queue[mid].dueTick <= timer.dueTick) lo = mid + 1;
+            else hi = mid;
+        }
+        queue.splice(lo, 0, timer);
+    }
+
+    // Cancelled timers stay in the queue until they reach the front.
+    private remove(timer: Timer) {
+        if (timer.cancelled) return;
+        timer.cancelled = true;
+        this.byId.delete(timer.id);
+        const owned = this.byOwner.get(timer.ownerId);
+        if (owned) {
+            owned.delete(timer);
+            if (owned.size === 0) this.byOwner.delete(timer.ownerId);
+        }
+    }
+
+    tick() {
+        this.tickCount++;
+        const queue = this.queue;
+
+        while (queue.length > 0 && queue[0].dueTick <= this.tickCount) {
+            const timer = queue.shift() as Timer;
+            if (timer.cancelled) continue;
+
+            if (timer.intervalTicks > 0) {
+                timer.dueTick += timer.intervalTicks;
+                this.enqueue(timer);
+            } else {
+                this.remove(timer);
+            }
+
+            try {
+                timer.fn();
+            } catch (e) {
+                console.error(`timer ${timer.id} failed: ${e}`);
+            }
+        }
+    }
+}
+
+export const timers = new TimerService();
+
+//-----------------------------------------------------------------------------------------------//
+// Cooldowns: "can this player / object use X again?"
+//-----------------------------------------------------------------------------------------------//
+
+export class CooldownTracker {
+    private readyAt = new Map<number, Map<string, number>>(); // objId -> key -> tick
+
+    constructor(private clock: TimerService) {}
+
+    private idOf(entity: mod.Object | number): number {
+        return typeof entity === 'number' ? entity : mod.GetObjId(entity);
+    }
+
+    start(key: string, entity: mod.Object | number, seconds: number) {
+        this.startTicks(key, entity, this.clock.secondsToTicks(seconds));
+    }
+
+    startTicks(key: string, entity: mod.Object | number, ticks: number) {
+        const id = this.idOf(entity);
+        let keys = this.readyAt.get(id);
+        if (!keys) {
+            keys = new Map();
+            this.readyAt.set(id, keys);
+        }
+        keys.set(key, this.clock.now() + ticks);
+    }
+
+    isReady(key: string, entity: mod.Object | number): boolean {
+        return this.remainingTicks(key, entity) === 0;
+    }
+
+    remainingTicks(key: string, entity: mod.Object | number): number {
+        const keys = this.readyAt.get(this.idOf(entity));
+        const at = keys ? keys.get(key) : undefined;
+        if (at === undefined) return 0;
+        const left = at - this.clock.now();
+        return left > 0 ? left : 0;
+    }
+
+    // If ready, starts the cooldown and returns true; otherwise false.
+    tryUse(key: string, entity: mod.Object | number, seconds: number): boolean {
+        if (!this.isReady(key, entity)) return false;
+        this.start(key, entity, seconds);
+        return true;
+    }
+
+    reset(key: string, entity: mod.Object | number) {
+        const keys = this.readyAt.get(this.idOf(entity));
+        if (keys) keys.delete(key);
+    }
+
+    clearEntity(entity: mod.Object | number) {
+        this.readyAt.delete(this.idOf(entity));
+    }
+}
+
+export const cooldowns = new CooldownTracker(timers);
+
+events.on('OngoingGlobal', () => timers.tick(), { module: 'Timers', order: EVENT_ORDER_FIRST });
+
+const __timerCleanupOptions = { module: 'Timers', order: EVENT_ORDER_LAST };
+events.on('OnPlayerDied', (player) => timers.cancelPlayer(mod.GetObjId(player), true), __timerCleanupOptions);
+events.on(
+    'OnPlayerLeaveGame',
+    (objId) => {
+        timers.cancelPlayer(objId);
+        cooldowns.clearEntity(objId);
+    },
+    __timerCleanupOptions
+);
+events.on('OnVehicleDestroyed', (vehicle) => cooldowns.clearEntity(vehicle), __timerCleanupOptions);
@@ -0,0 +1,404 @@
+//-----------------------------------------------------------------------------------------------//
+// Retained UI: a ParseUI tree bound to state, updated with only the SetUI* calls that changed.
+//
+// Any property of a node can be a value or a function of the view's state:
+//   const hud = modlib.ui.bind({
+//       type: 'Container', position: [0, 80], size: [300, 70], anchor: mod.UIAnchor.TopCenter, playerId: player,
+//       children: [
+//           { type: 'Text', size: [300, 30], textLabel: (s) => [mod.stringkeys.score, s.score] },
+//           { type: 'Text', position: [0, 35], size: [300, 30], visible: (s) => s.streak > 1 },
+//       ],
+//   }, { score: 0, streak: 0 });
+//   hud.update({ score: 12, streak: 3 }); // sent with the next batch, only what differs
+//
+// Dirty views are flushed together every `flushIntervalTicks` OngoingGlobal ticks (10 Hz by default,
+// the PerfThrottles UI rate). With `autoFlush: false` the mode calls modlib.ui.flush() itself, e.g.
+// from its own scheduler task. `children` can also be a function of state: children are matched by
+// `key` (or index), new ones are created and missing ones deleted. Inside a VStack / HStack / Grid
+// (see LayoutUI) siblings move up when one is hidden or removed.
+//
+// Values are compared with ===, arrays element by element, so give vectors as [x, y, z] and labels
+// as strings or [format, arg0, ...]: a fresh mod.Vector or mod.Message never compares equal and is
+// sent on every flush.
+//-----------------------------------------------------------------------------------------------//
+
+import { UIButtonHandlers, buttons, hasUIButtonHandlers } from './buttons';
+import { EVENT_ORDER_LAST, events } from './events';
+import { LayoutUI, UIParams, UISize, UIVector } from './index';
+import { UIHandle, UIWidgetType, widgets } from './widgets';
+
+export type UILabel = string | number | mod.Message | (string | number | mod.Player)[];
+
+// Everything a node can bind, each applied with its SetUI* function.
+export interface UIBindableProps {
+    position: UISize;
+    size: UISize;
+    anchor: mod.UIAnchor;
+    visible: boolean;
+    padding: number;
+    bgColor: UIVector;
+    bgAlpha: number;
+    bgFill: mod.UIBgFill;
+    textLabel: UILabel;
+    textColor: UIVector;
+    textAlpha: number;
+    textSize: number;
+    textAnchor: mod.UIAnchor;
+    imageType: mod.UIImageType;
+    imageColor: UIVector;
+    imageAlpha: number;
+    buttonEnabled: boolean;
+    buttonColorBase: UIVector;
+    buttonAlphaBase: number;
+    buttonColorDisabled: UIVector;
+    buttonAlphaDisabled: number;
+    buttonColorPressed: UIVector;
+    buttonAlphaPressed: number;
+    buttonColorHover: UIVector;
+    buttonAlphaHover: number;
+    buttonColorFocused: UIVector;
+    buttonAlphaFocused: number;
+}
+
+type UIProp = keyof UIBindableProps;
+
+export type UIBinding<S, T> = T | ((state: S) => T);
+
+export type UINode<S> = { [K in UIProp]?: UIBinding<S, UIBindableProps[K]> } & UIButtonHandlers & {
+    type: UIWidgetType;
+    name?: string;
+    key?: string | number; // identity among dynamic children; defaults to the index
+    spacing?: number;
+    columns?: number;
+    cellSize?: UISize;
+    menu?: boolean; // UI input mode is on for the view's player while this node is visible
+    teamId?: mod.Team;
+    playerId?: mod.Player;
+    children?: UINode<S>[] | ((state: S) => UINode<S>[]);
+};
+
+export interface UIRendererConfig {
+    flushIntervalTicks: number; // dirty views are flushed on ticks that are a multiple of this
+    autoFlush: boolean; // false: nothing is flushed until modlib.ui.flush() / view.flush()
+}
+
+const UI_RENDERER_DEFAULT_CONFIG: UIRendererConfig = {
+    flushIntervalTicks: 3,
+    autoFlush: true,
+};
+
+export interface UIViewOptions {
+    intervalTicks?: number; // overrides flushIntervalTicks for this view
+}
+
+// after LayoutUI every position / size is in pixels
+function __uiVector(value: UIVector): mod.Vector {
+    if (Array.isArray(value)) return mod.CreateVector(value[0], value[1], value.length == 2 ? 0 : value[2]);
+    return value;
+}
+
+function __uiLabel(value: UILabel): mod.Message {
+    if (Array.isArray(value)) {
+        if (value.length >= 4) return mod.Message(value[0], value[1], value[2], value[3]);
+        if (value.length == 3) return mod.Message(value[0], value[1], value[2]);
+        if (value.length == 2) return mod.Message(value[0], value[1]);
+        return mod.Message(value[0] ?? '');
+    }
+    if (typeof value === 'string' || typeof value === 'number') return mod.Message(value);
+    return value;
+}
+
+function __uiSame(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+    return true;
+}
+
+type UISetter = (widget: mod.UIWidget, value: any) => void;
+
+const __uiSetters: { [K in UIProp]: UISetter } = {
+    position: (w, v) => mod.SetUIWidgetPosition(w, __uiVector(v)),
+    size: (w, v) => mod.SetUIWidgetSize(w, __uiVector(v)),
+    anchor: (w, v) => mod.SetUIWidgetAnchor(w, v),
+    visible: (w, v) => mod.SetUIWidgetVisible(w, v),
+    padding: (w, v) => mod.SetUIWidgetPadding(w, v),
+    bgColor: (w, v) => mod.SetUIWidgetBgColor(w, __uiVector(v)),
+    bgAlpha: (w, v) => mod.SetUIWidgetBgAlpha(w, v),
+    bgFill: (w, v) => mod.SetUIWidgetBgFill(w, v),
+    textLabel: (w, v) => mod.SetUITextLabel(w, __uiLabel(v)),
+    textColor: (w, v) => mod.SetUITextColor(w, __uiVector(v)),
+    textAlpha: (w, v) => mod.SetUITextAlpha(w, v),
+    textSize: (w, v) => mod.SetUITextSize(w, v),
+    textAnchor: (w, v) => mod.SetUITextAnchor(w, v),
+    imageType: (w, v) => mod.SetUIImageType(w, v),
+    imageColor: (w, v) => mod.SetUIImageColor(w, __uiVector(v)),
+    imageAlpha: (w, v) => mod.SetUIImageAlpha(w, v),
+    buttonEnabled: (w, v) => mod.SetUIButtonEnabled(w, v),
+    buttonColorBase: (w, v) => mod.SetUIButtonColorBase(w, __uiVector(v)),
+    buttonAlphaBase: (w, v) => mod.SetUIButtonAlphaBase(w, v),
+    buttonColorDisabled: (w, v) => mod.SetUIButtonColorDisabled(w, __uiVector(v)),
+    buttonAlphaDisabled: (w, v) => mod.SetUIButtonAlphaDisabled(w, v),
+    buttonColorPressed: (w, v) => mod.SetUIButtonColorPressed(w, __uiVector(v)),
+    buttonAlphaPressed: (w, v) => mod.SetUIButtonAlphaPressed(w, v),
+    buttonColorHover: (w, v) => mod.SetUIButtonColorHover(w, __uiVector(v)),
+    buttonAlphaHover: (w, v) => mod.SetUIButtonAlphaHover(w, v),
+    buttonColorFocused: (w, v) => mod.SetUIButtonColorFocused(w, __uiVector(v)),
+    buttonAlphaFocused: (w, v) => mod.SetUIButtonAlphaFocused(w, v),
+};
+
+class UIViewNode<S> {
+    public children: UIViewNode<S>[] = [];
+    public applied: { [prop: string]: unknown } = {}; // last value sent per prop
+
+    constructor(public spec: UINode<S>, public key: string | number, public handle: UIHandle<any>) {}
+
+    get widget(): mod.UIWidget {
+        return this.handle.widget;
+    }
+}
+
+// A node's values for one flush: bindings evaluated, then laid out by LayoutUI.
+class UIResolvedNode<S> {
+    constructor(public spec: UINode<S>, public key: string | number, public params: any, public children: UIResolvedNode<S>[]) {}
+}
+
+export class UIView<S> {
+    private root: UIViewNode<S> | undefined;
+    private dirty = false;
+    private calls = 0;
+
+    public readonly ownerId: number; // ObjId of the root's playerId, -1 if none
+
+    constructor(private spec: UINode<S>, private state: S, public intervalTicks: number) {
+        this.ownerId = spec.playerId ? mod.GetObjId(spec.playerId) : -1;
+        this.root = this.create(this.layout(), mod.GetUIRoot());
+    }
+
+    get widget(): mod.UIWidget | undefined {
+        return this.root?.widget;
+    }
+
+    getState(): S {
+        return this.state;
+    }
+
+    isDirty(): boolean {
+        return this.dirty;
+    }
+
+    isDestroyed(): boolean {
+        return this.root === undefined;
+    }
+
+    // Marks the view for the next batch. Without an argument the current state object is re-read,
+    // for modes that mutate it in place.
+    update(state?: S) {
+        if (state !== undefined) this.state = state;
+        this.dirty = true;
+    }
+
+    // Applies the differences now; returns how many SetUI* calls that took.
+    flush(): number {
+        this.dirty = false;
+        if (!this.root) return 0;
+        this.calls = 0;
+        this.patch(this.root, this.layout());
+        return this.calls;
+    }
+
+    destroy() {
+        if (!this.root) return;
+        this.remove(this.root);
+        this.root = undefined;
+        this.dirty = false;
+    }
+
+    // The whole tree is resolved and laid out on every flush, so a child appearing, disappearing or
+    // changing size moves its siblings through ordinary position / size diffs.
+    private layout(): UIResolvedNode<S> {
+        const root = this.resolveNode(this.spec, 0);
+        LayoutUI(root.params);
+        return root;
+    }
+
+    private resolveNode(spec: UINode<S>, key: string | number): UIResolvedNode<S> {
+        const params: any = { type: spec.type };
+        for (const prop in spec) {
+            if (!__uiSetters[prop as UIProp]) continue;
+            const value = this.resolve((spec as any)[prop]);
+            if (value !== undefined) params[prop] = value;
+        }
+        if (spec.spacing !== undefined) params.spacing = spec.spacing;
+        if (spec.columns !== undefined) params.columns = spec.columns;
+        if (spec.cellSize !== undefined) params.cellSize = spec.cellSize;
+
+        const specs = this.childSpecs(spec);
+        const children: UIResolvedNode<S>[] = [];
+        for (let i = 0; i < specs.length; i++) children.push(this.resolveNode(specs[i], specs[i].key ?? i));
+        params.children = children.map((child) => child.params);
+        return new UIResolvedNode(spec, key, params, children);
+    }
+
+    private create(resolved: UIResolvedNode<S>, parent: mod.UIWidget): UIViewNode<S> {
+        const spec = resolved.spec;
+        const params: any = { ...resolved.params, name: spec.name ?? '', parent, children: undefined };
+        if (spec.teamId) params.teamId = spec.teamId;
+        if (spec.playerId) params.playerId = spec.playerId;
+        if (params.textLabel !== undefined) params.textLabel = __uiLabel(params.textLabel);
+
+        const node = new UIViewNode(spec, resolved.key, widgets.create(params as UIParams & { type: UIWidgetType }));
+        for (const prop in resolved.params) {
+            if (__uiSetters[prop as UIProp]) node.applied[prop] = resolved.params[prop];
+        }
+        this.bindButtons(node);
+        if (spec.menu && this.spec.playerId) buttons.addMenu(node.widget, this.spec.playerId, resolved.params.visible !== false);
+        for (const child of resolved.children) node.children.push(this.create(child, node.widget));
+        return node;
+    }
+
+    // Handlers are taken from the latest spec, so closures over a render's values stay current.
+    private bindButtons(node: UIViewNode<S>) {
+        if (node.spec.type != 'Button') return;
+        if (hasUIButtonHandlers(node.spec)) {
+            if (buttons.isBound(node.widget)) buttons.setHandlers(node.widget, node.spec);
+            else buttons.bind(node.widget, node.spec, { player: this.spec.playerId, team: this.spec.teamId });
+        } else {
+            buttons.release(node.widget);
+        }
+    }
+
+    // Also releases the subtree's button handlers; a no-op if the player's widgets are already gone.
+    private remove(node: UIViewNode<S>) {
+        node.handle.destroy();
+    }
+
+    private patch(node: UIViewNode<S>, resolved: UIResolvedNode<S>) {
+        node.spec = resolved.spec;
+        for (const prop in resolved.params) {
+            const setter = __uiSetters[prop as UIProp];
+            if (!setter) continue;
+            const value = resolved.params[prop];
+            if (__uiSame(node.applied[prop], value)) continue;
+            node.applied[prop] = value;
+            setter(node.widget, value);
+            this.calls++;
+            if (prop === 'visible' && node.spec.menu) buttons.setMenuOpen(node.widget, value !== false);
+        }
+        this.bindButtons(node);
+        this.syncChildren(node, resolved.children);
+    }
+
+    // Keeps children with the same key and type (patched against their new values), creates new
+    // ones and deletes the rest.
+    private syncChildren(node: UIViewNode<S>, children: UIResolvedNode<S>[]) {
+        if (children.length === 0 && node.children.length === 0) return;
+
+        const previous = new Map<string | number, UIViewNode<S>>();
+        for (const child of node.children) previous.set(child.key, child);
+
+        const next: UIViewNode<S>[] = [];
+        for (const resolved of children) {
+            const child = previous.get(resolved.key);
+            if (child && child.spec.type === resolved.spec.type) {
+                previous.delete(resolved.key);
+                this.patch(child, resolved);
+                next.push(child);
+            } else {
+                next.push(this.create(resolved, node.widget));
+            }
+        }
+        previous.forEach((child) => this.remove(child));
+        node.children = next;
+    }
+
+    private childSpecs(spec: UINode<S>): UINode<S>[] {
+        const children = spec.children;
+        if (!children) return [];
+        return typeof children === 'function' ? children(this.state) : children;
+    }
+
+    private resolve(binding: unknown): unknown {
+        return typeof binding === 'function' ? binding(this.state) : binding;
+    }
+}
+
+export class UIRenderer {
+    private config: UIRendererConfig;
+    private tickCount = 0;
+    private views: UIView<any>[] = [];
+
+    constructor(config: Partial<UIRendererConfig> = {}) {
+        this.config = { ...UI_RENDERER_DEFAULT_CONFIG, ...config };
+    }
+
+    configure(changes: Partial<UIRendererConfig>) {
+        this.config = { ...this.config, ...changes };
+    }
+
+    // Creates the widgets for `state` right away; later changes go through view.update().
+    bind<S>(spec: UINode<S>, state: S, options: UIViewOptions = {}): UIView<S> {
+        const view = new UIView<S>(spec, state, options.intervalTicks ?? 0);
+        this.views.push(view);
+        return view;
+    }
+
+    destroy(view: UIView<any>) {
+        view.destroy();
+        const idx = this.views.indexOf(view);
+        if (idx >= 0) this.views.splice(idx, 1);
+    }
+
+    // Views whose root belongs to the player; their widgets are deleted.
+    destroyPlayer(playerObjId: number): number {
+        let n = 0;
+        for (const view of this.views.slice()) {
+            if (view.ownerId !== playerObjId) continue;
+            this.destroy(view);
+            n++;
+        }
+        return n;
+    }
+
+    count(): number {
+        return this.views.length;
+    }
+
+    // Flushes every dirty view now; returns the SetUI* calls made.
+    flush(): number {
+        return this.flushWhere(() => true);
+    }
+
+    tick() {
+        this.tickCount++;
+        if (!this.config.autoFlush) return;
+        const tick = this.tickCount;
+        const interval = this.config.flushIntervalTicks;
+        this.flushWhere((view) => mod.Modulo(tick, view.intervalTicks > 0 ? view.intervalTicks : interval) === 0);
+    }
+
+    private flushWhere(due: (view: UIView<any>) => boolean): number {
+        let calls = 0;
+        const views = this.views.slice();
+        for (let i = 0; i < views.length; i++) {
+            const view = views[i];
+            if (view.isDestroyed()) {
+                this.destroy(view);
+                continue;
+            }
+            if (!view.isDirty() || !due(view)) continue;
+            try {
+                calls += view.flush();
+            } catch (e) {
+                console.error(`ui view flush failed: ${e}`);
+            }
+        }
+        return calls;
+    }
+}
+
+export const ui = new UIRenderer();
+
+events.on('OngoingGlobal', () => ui.tick(), { module: 'UI', order: EVENT_ORDER_LAST });
+// the player's widgets go with them
+events.on('OnPlayerLeaveGame', (objId) => ui.destroyPlayer(objId), { module: 'UI', order: EVENT_ORDER_LAST });
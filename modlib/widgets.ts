@@ -0,0 +1,225 @@
+//-----------------------------------------------------------------------------------------------//
+// Widget registry: every widget ParseUI creates gets a handle, namespaced by the player or team it
+// is shown to.
+//
+//   const hud = modlib.widgets.create({ type: 'Container', name: 'hud', playerId: player, children: [
+//       { type: 'Text', name: 'score', textLabel: '0' },
+//   ] });
+//   hud.child<'Text'>('score')?.setText(mod.Message(mod.stringkeys.score, 12));
+//   modlib.widgets.get('hud', { player })?.destroy(); // the whole subtree
+//
+// Names only have to be unique per namespace: every player can have a 'hud'. Children without a
+// playerId / teamId of their own are in their parent's namespace. A player's widgets are
+// destroyed when they leave.
+//
+// Widgets are created under a name nobody else uses, so concurrent ParseUI calls can't pick up each
+// other's widgets, and then renamed to a name no other registered widget has:
+//   'hud'          if it is free, so mod.FindUIWidgetWithName('hud') keeps working;
+//   'hud@p7'       if not: the name in its namespace (p<ObjId> / t<ObjId>);
+//   '----ui12----' if that is taken too, or the widget has no name.
+// Handles are looked up by that name (mod.GetUIWidgetName), not by mod.UIWidget identity.
+//-----------------------------------------------------------------------------------------------//
+
+import { buttons } from './buttons';
+import { EVENT_ORDER_LAST, events } from './events';
+import { ParseUI, UIParams } from './index';
+
+export type UIWidgetType = 'Container' | 'Text' | 'Image' | 'Button' | 'VStack' | 'HStack' | 'Grid';
+
+export interface UIWidgetScope {
+    player?: mod.Player;
+    team?: mod.Team;
+}
+
+export class UIHandle<T extends string = UIWidgetType> {
+    public children: UIHandle<any>[] = [];
+    public destroyed = false;
+
+    constructor(
+        private registry: UIWidgetRegistry,
+        public readonly id: number,
+        public readonly type: T,
+        public readonly name: string,
+        public readonly widgetName: string, // the unique SDK name, what mod.GetUIWidgetName returns
+        public readonly widget: mod.UIWidget,
+        public readonly namespace: string,
+        public readonly player: mod.Player | undefined, // shown to this player (own or inherited)
+        public readonly team: mod.Team | undefined,
+        public readonly parent: UIHandle<any> | undefined
+    ) {}
+
+    isValid(): boolean {
+        return !this.destroyed;
+    }
+
+    // First descendant with this name, depth-first.
+    child<C extends string = UIWidgetType>(name: string): UIHandle<C> | undefined {
+        for (const child of this.children) {
+            if (child.name === name) return child;
+            const found = child.child<C>(name);
+            if (found) return found;
+        }
+        return undefined;
+    }
+
+    // Also opens / closes input mode for menus.
+    setVisible(visible: boolean) {
+        buttons.setMenuVisible(this.widget, visible);
+    }
+
+    setText(this: UIHandle<'Text'>, label: string | mod.Message) {
+        mod.SetUITextLabel(this.widget, typeof label === 'string' ? mod.Message(label) : label);
+    }
+
+    setEnabled(this: UIHandle<'Button'>, enabled: boolean) {
+        mod.SetUIButtonEnabled(this.widget, enabled);
+    }
+
+    destroy() {
+        this.registry.destroy(this);
+    }
+}
+
+export class UIWidgetRegistry {
+    private nextId = 1;
+    private nextCreationId = 1;
+    private byWidgetName = new Map<string, UIHandle<any>>();
+    private byName = new Map<string, Map<string, UIHandle<any>>>(); // namespace -> name -> handle
+
+    // ParseUI with handles; returns the handle of the top widget.
+    create<T extends UIWidgetType>(params: Partial<UIParams> & { type: T }): UIHandle<T> {
+        const widget = ParseUI(params);
+        const handle = widget ? this.find(widget) : undefined;
+        if (!handle) throw new Error(`widgets.create: cannot create a '${params.type}' widget`);
+        return handle;
+    }
+
+    // A name no other widget has, to create a widget under and find it again.
+    creationName(): string {
+        return `----ui${this.nextCreationId++}----`;
+    }
+
+    // Finds the widget just created under `creationName`, renames it after `name` and registers it.
+    adopt<T extends string>(creationName: string, type: T, name: string, parent: mod.UIWidget | undefined, scope: UIWidgetScope): UIHandle<T> {
+        const widget = mod.FindUIWidgetWithName(creationName) as mod.UIWidget;
+        return this.add(widget, type, name, name, parent, scope);
+    }
+
+    // Keeps the widget's own name if no registered widget has it; otherwise renames it the same way.
+    register<T extends string>(widget: mod.UIWidget, type: T, name: string, parent: mod.UIWidget | undefined, scope: UIWidgetScope): UIHandle<T> {
+        return this.add(widget, type, name, mod.GetUIWidgetName(widget), parent, scope);
+    }
+
+    private add<T extends string>(
+        widget: mod.UIWidget,
+        type: T,
+        name: string,
+        preferred: string,
+        parent: mod.UIWidget | undefined,
+        scope: UIWidgetScope
+    ): UIHandle<T> {
+        const parentHandle = parent ? this.find(parent) : undefined;
+        const player = scope.player ?? (scope.team ? undefined : parentHandle?.player);
+        const team = scope.player ? undefined : scope.team ?? parentHandle?.team;
+        const namespace = this.namespaceOf({ player, team });
+
+        const widgetName = this.freeWidgetName(preferred, namespace);
+        if (widgetName !== mod.GetUIWidgetName(widget)) mod.SetUIWidgetName(widget, widgetName);
+
+        const handle = new UIHandle<T>(this, this.nextId++, type, name, widgetName, widget, namespace, player, team, parentHandle);
+        if (parentHandle) parentHandle.children.push(handle);
+        this.byWidgetName.set(widgetName, handle);
+        if (name !== '') {
+            let names = this.byName.get(handle.namespace);
+            if (!names) {
+                names = new Map();
+                this.byName.set(handle.namespace, names);
+            }
+            names.set(name, handle); // the newest widget wins the name
+        }
+        return handle;
+    }
+
+    // By name in one namespace: a player's, a team's, or (no scope) the one shared by everybody.
+    get<T extends string = UIWidgetType>(name: string, scope: UIWidgetScope = {}): UIHandle<T> | undefined {
+        const names = this.byName.get(this.namespaceOf(scope));
+        return names ? names.get(name) : undefined;
+    }
+
+    // The handle of a widget, e.g. one an event passed in.
+    find(widget: mod.UIWidget): UIHandle<any> | undefined {
+        return this.byWidgetName.get(mod.GetUIWidgetName(widget));
+    }
+
+    count(): number {
+        return this.byWidgetName.size;
+    }
+
+    // Deletes the widget and its subtree, releasing their button handlers. Widgets that weren't
+    // created through ParseUI are just deleted.
+    destroy(target: UIHandle<any> | mod.UIWidget) {
+        const handle = target instanceof UIHandle ? target : this.find(target);
+        if (!handle) {
+            mod.DeleteUIWidget(target as mod.UIWidget);
+            return;
+        }
+        if (handle.destroyed) return;
+
+        this.forget(handle);
+        if (handle.parent) {
+            const siblings = handle.parent.children;
+            const idx = siblings.indexOf(handle);
+            if (idx >= 0) siblings.splice(idx, 1);
+        }
+        mod.DeleteUIWidget(handle.widget);
+    }
+
+    // Everything shown to a player / team (or, with no scope, to everybody); returns how many
+    // top-level widgets were deleted.
+    destroyScope(scope: UIWidgetScope = {}): number {
+        return this.destroyNamespace(this.namespaceOf(scope));
+    }
+
+    onPlayerLeaveGame(playerObjId: number) {
+        this.destroyNamespace(`p${playerObjId}`);
+    }
+
+    private destroyNamespace(namespace: string): number {
+        const tops: UIHandle<any>[] = [];
+        this.byWidgetName.forEach((handle) => {
+            if (handle.namespace === namespace && (!handle.parent || handle.parent.namespace !== namespace)) tops.push(handle);
+        });
+        tops.forEach((handle) => this.destroy(handle));
+        return tops.length;
+    }
+
+    private freeWidgetName(name: string, namespace: string): string {
+        if (name === '') return this.creationName();
+        if (!this.byWidgetName.has(name)) return name;
+        const scoped = `${name}@${namespace}`;
+        if (namespace !== '' && !this.byWidgetName.has(scoped)) return scoped;
+        return this.creationName();
+    }
+
+    private namespaceOf(scope: UIWidgetScope): string {
+        if (scope.player) return `p${mod.GetObjId(scope.player)}`;
+        if (scope.team) return `t${mod.GetObjId(scope.team)}`;
+        return '';
+    }
+
+    private forget(handle: UIHandle<any>) {
+        handle.destroyed = true;
+        for (const child of handle.children) this.forget(child);
+        buttons.release(handle.widget);
+        this.byWidgetName.delete(handle.widgetName);
+        const names = this.byName.get(handle.namespace);
+        if (names && names.get(handle.name) === handle) {
+            names.delete(handle.name);
+            if (names.size === 0) this.byName.delete(handle.namespace);
+        }
+    }
+}
+
+export const widgets = new UIWidgetRegistry();
+
+events.on('OnPlayerLeaveGame', (objId) => widgets.onPlayerLeaveGame(objId), { module: 'Widgets', order: EVENT_ORDER_LAST });
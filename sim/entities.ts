@@ -0,0 +1,109 @@
+// In-memory stand-ins for the opaque SDK handle types (mod.Player, mod.Team, mod.Vector, ...).
+// Handles are plain objects so tests can inspect them directly; the simulated `mod` namespace
+// casts them to the SDK types at the boundary.
+
+export class SimVector {
+    constructor(public x: number, public y: number, public z: number) {}
+
+    toString() {
+        return `(${this.x}, ${this.y}, ${this.z})`;
+    }
+}
+
+export function simVector(v: SimVector | number[] | undefined, fallback = new SimVector(0, 0, 0)): SimVector {
+    if (!v) return fallback;
+    if (Array.isArray(v)) return new SimVector(v[0] ?? 0, v[1] ?? 0, v[2] ?? 0);
+    return v;
+}
+
+// A handle typed as its SDK type, for scenarios that pass handles to modlib or mod.* themselves:
+//   modlib.store.team('TeamScore', 0).get(asMod<mod.Team>(sim.team(1)))
+export function asMod<T>(handle: SimObject | SimVector): T {
+    return handle as unknown as T;
+}
+
+export class SimMessage {
+    constructor(public format: string | number | SimPlayer, public args: (string | number | SimPlayer)[]) {}
+
+    // Resolves `{}` placeholders the same way the Portal string table does for literal keys.
+    toString() {
+        let i = 0;
+        const text = String(this.format);
+        return text.replace(/\{\}/g, () => (i < this.args.length ? String(this.args[i++]) : '{}'));
+    }
+}
+
+export class SimArray {
+    constructor(public items: unknown[] = []) {}
+}
+
+// mod.GlobalVariable / mod.ObjectVariable: a key into Simulator.variables.
+export class SimVariable {
+    constructor(readonly key: string) {}
+}
+
+export class SimObject {
+    constructor(readonly objId: number, readonly kind: string) {}
+
+    toString() {
+        return `${this.kind}(${this.objId})`;
+    }
+}
+
+export class SimTeam extends SimObject {
+    constructor(objId: number, public teamId: number) {
+        super(objId, 'Team');
+    }
+}
+
+export class SimPlayer extends SimObject {
+    name: string;
+    team: SimTeam;
+    isAI: boolean;
+
+    // false until the player joins and again after they leave; mirrors mod.IsPlayerValid
+    valid = false;
+    deployed = false;
+    alive = false;
+    manDown = false;
+
+    health = 0;
+    maxHealth: number;
+    position: SimVector;
+    facing = new SimVector(0, 0, 1);
+
+    // damage dealt to this player in the current life, keyed by attacker ObjId (used for assists)
+    damageTakenBy = new Map<number, number>();
+    manDownAttacker: SimPlayer | undefined = undefined;
+
+    constructor(objId: number, name: string, team: SimTeam, isAI: boolean, maxHealth: number, position: SimVector) {
+        super(objId, 'Player');
+        this.name = name;
+        this.team = team;
+        this.isAI = isAI;
+        this.maxHealth = maxHealth;
+        this.position = position;
+    }
+
+    toString() {
+        return this.name;
+    }
+}
+
+// Opaque event payloads. The SDK only lets scripts compare these, so the simulator keeps the
+// enum member they were created from.
+export class SimDamageType {
+    constructor(readonly damageType: number) {}
+}
+
+export class SimDeathType {
+    constructor(readonly deathType: number) {}
+}
+
+export function simEquals(a: unknown, b: unknown): boolean {
+    if (a instanceof SimObject && b instanceof SimObject) return a.kind === b.kind && a.objId === b.objId;
+    if (a instanceof SimVector && b instanceof SimVector) return a.x === b.x && a.y === b.y && a.z === b.z;
+    if (a instanceof SimDamageType && b instanceof SimDamageType) return a.damageType === b.damageType;
+    if (a instanceof SimDeathType && b instanceof SimDeathType) return a.deathType === b.deathType;
+    return a === b;
+}
@@ -0,0 +1,155 @@
+// Runtime values for the SDK enums. `types/index.d.ts` only declares them, so the simulator has
+// to provide objects for `mod.SoldierStateNumber.CurrentHealth` and friends.
+//
+// Enums whose ordinal matters to script code (comparisons like `slot < 1`) or to the simulator
+// itself are listed explicitly, in declaration order, so they get the same numeric values as the
+// live SDK. Every other enum is created lazily and its members evaluate to "Enum.Member" strings,
+// which is enough for equality checks.
+//
+// The three SoldierState enums are the exception: GetSoldierState takes any of them, and their
+// ordinals overlap, so they use the "Enum.Member" form too and the simulator dispatches on it.
+
+function ordinalEnum(names: string[]): Record<string, number> {
+    const e: Record<string, number> = {};
+    names.forEach((name, i) => (e[name] = i));
+    return e;
+}
+
+function namedEnum(enumName: string, names: string[]): Record<string, string> {
+    const e: Record<string, string> = {};
+    names.forEach((name) => (e[name] = `${enumName}.${name}`));
+    return e;
+}
+
+export const SoldierStateBool = namedEnum('SoldierStateBool', [
+    'IsAISoldier',
+    'IsAlive',
+    'IsBeingRevived',
+    'IsCrouching',
+    'IsDead',
+    'IsFiring',
+    'IsInAir',
+    'IsInteracting',
+    'IsInVehicle',
+    'IsInWater',
+    'IsJumping',
+    'IsManDown',
+    'IsOnGround',
+    'IsParachuting',
+    'IsProne',
+    'IsReloading',
+    'IsReviving',
+    'IsSprinting',
+    'IsStanding',
+    'IsVaulting',
+    'IsZooming',
+]);
+
+export const SoldierStateNumber = namedEnum('SoldierStateNumber', [
+    'CurrentHealth',
+    'CurrentWeaponAmmo',
+    'CurrentWeaponMagazineAmmo',
+    'MaxHealth',
+    'NormalizedHealth',
+    'Speed',
+]);
+
+export const SoldierStateVector = namedEnum('SoldierStateVector', [
+    'EyePosition',
+    'GetFacingDirection',
+    'GetLinearVelocity',
+    'GetPosition',
+]);
+
+export const VehicleStateVector = ordinalEnum(['FacingDirection', 'LinearVelocity', 'VehiclePosition']);
+
+export const PlayerDamageTypes = ordinalEnum(['Default', 'Explosion', 'Fall', 'Fire', 'Headshot', 'Melee']);
+
+export const PlayerDeathTypes = ordinalEnum([
+    'Deserting',
+    'Drowning',
+    'Explosion',
+    'Fall',
+    'Fire',
+    'Headshot',
+    'Melee',
+    'Penetration',
+    'Redeploy',
+    'Roadkill',
+    'Weapon',
+]);
+
+export const CustomNotificationSlots = ordinalEnum([
+    'HeaderText',
+    'MessageText1',
+    'MessageText2',
+    'MessageText3',
+    'MessageText4',
+]);
+
+export const UIAnchor = ordinalEnum([
+    'BottomCenter',
+    'BottomLeft',
+    'BottomRight',
+    'Center',
+    'CenterLeft',
+    'CenterRight',
+    'TopCenter',
+    'TopLeft',
+    'TopRight',
+]);
+
+export const UIBgFill = ordinalEnum([
+    'Blur',
+    'GradientBottom',
+    'GradientLeft',
+    'GradientRight',
+    'GradientTop',
+    'None',
+    'OutlineThick',
+    'OutlineThin',
+    'Solid',
+]);
+
+export const UIButtonEvent = ordinalEnum(['ButtonDown', 'ButtonUp', 'FocusIn', 'FocusOut', 'HoverIn', 'HoverOut']);
+
+export const UIDepth = ordinalEnum(['AboveGameUI', 'BelowGameUI']);
+
+export const UIImageType = ordinalEnum([
+    'CrownOutline',
+    'CrownSolid',
+    'None',
+    'QuestionMark',
+    'RifleAmmo',
+    'SelfHeal',
+    'SpawnBeacon',
+    'TEMP_PortalIcon',
+]);
+
+export const knownEnums: Record<string, Record<string, number | string>> = {
+    SoldierStateBool,
+    SoldierStateNumber,
+    SoldierStateVector,
+    VehicleStateVector,
+    PlayerDamageTypes,
+    PlayerDeathTypes,
+    CustomNotificationSlots,
+    UIAnchor,
+    UIBgFill,
+    UIButtonEvent,
+    UIDepth,
+    UIImageType,
+};
+
+const lazyEnums = new Map<string, Record<string, string>>();
+
+export function lazyEnum(enumName: string): Record<string, string> {
+    let e = lazyEnums.get(enumName);
+    if (!e) {
+        e = new Proxy({} as Record<string, string>, {
+            get: (_target, member) => `${enumName}.${String(member)}`,
+        });
+        lazyEnums.set(enumName, e);
+    }
+    return e;
+}
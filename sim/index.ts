@@ -0,0 +1,14 @@
+export { asMod, SimArray, SimDamageType, SimDeathType, SimMessage, SimObject, SimPlayer, SimTeam, SimVector } from './entities';
+export { SimNotImplementedError } from './mod';
+export { Simulator } from './runtime';
+export type {
+    AddPlayerOptions,
+    DamageOptions,
+    ModeEvent,
+    ModeHandlers,
+    SimEventRecord,
+    SimNotification,
+    SimulatorOptions,
+} from './runtime';
+export { SimUI, SimWidget } from './ui';
+export type { SimWidgetKind } from './ui';
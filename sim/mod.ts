@@ -0,0 +1,198 @@
+import {
+    SimArray,
+    SimDamageType,
+    SimDeathType,
+    SimMessage,
+    SimObject,
+    SimPlayer,
+    SimTeam,
+    SimVariable,
+    SimVector,
+    simEquals,
+} from './entities';
+import { knownEnums, lazyEnum } from './enums';
+import type { Simulator } from './runtime';
+import { SimWidget, uiSetters } from './ui';
+
+export class SimNotImplementedError extends Error {
+    constructor(name: string) {
+        super(`mod.${name} is not implemented by the simulator`);
+        this.name = 'SimNotImplementedError';
+    }
+}
+
+function vec(v: unknown): SimVector {
+    if (!(v instanceof SimVector)) throw new TypeError(`expected a mod.Vector, got ${String(v)}`);
+    return v;
+}
+
+function typeNameOf(value: unknown): string | undefined {
+    if (typeof value === 'number') return 'Number';
+    if (typeof value === 'boolean') return 'Boolean';
+    if (typeof value === 'string') return 'String';
+    if (value instanceof SimVector) return 'Vector';
+    if (value instanceof SimMessage) return 'Message';
+    if (value instanceof SimArray) return 'Array';
+    if (value instanceof SimDamageType) return 'DamageType';
+    if (value instanceof SimDeathType) return 'DeathType';
+    if (value instanceof SimObject) return value.kind;
+    return undefined;
+}
+
+// Builds the in-memory `mod` namespace for one simulator. Every access goes through a proxy so
+// calls can be counted and unimplemented functions fail loudly instead of returning undefined.
+export function createSimMod(sim: Simulator): typeof mod {
+    const impl: Record<string, unknown> = {
+        // ---- math / logic --------------------------------------------------------------------
+        Add: (a: any, b: any) => (a instanceof SimVector ? new SimVector(a.x + b.x, a.y + b.y, a.z + b.z) : a + b),
+        Subtract: (a: any, b: any) =>
+            a instanceof SimVector ? new SimVector(a.x - b.x, a.y - b.y, a.z - b.z) : a - b,
+        Multiply: (a: any, b: number) => (a instanceof SimVector ? new SimVector(a.x * b, a.y * b, a.z * b) : a * b),
+        Divide: (a: any, b: number) => (a instanceof SimVector ? new SimVector(a.x / b, a.y / b, a.z / b) : a / b),
+        AbsoluteValue: Math.abs,
+        SquareRoot: Math.sqrt,
+        RoundToInteger: Math.round,
+        Ceiling: Math.ceil,
+        Floor: Math.floor,
+        Max: Math.max,
+        Modulo: (a: number, b: number) => a % b,
+        Not: (a: boolean) => !a,
+        And: (a: boolean, b: boolean) => a && b,
+        Or: (a: boolean, b: boolean) => a || b,
+        Equals: simEquals,
+        IsType: (value: unknown, type: unknown) => `Types.${typeNameOf(value)}` === type,
+
+        CreateVector: (x: number, y: number, z: number) => new SimVector(x, y, z),
+        XComponentOf: (v: unknown) => vec(v).x,
+        YComponentOf: (v: unknown) => vec(v).y,
+        ZComponentOf: (v: unknown) => vec(v).z,
+        DistanceBetween: (a: unknown, b: unknown) => {
+            const p = vec(a);
+            const q = vec(b);
+            return Math.hypot(p.x - q.x, p.y - q.y, p.z - q.z);
+        },
+
+        // ---- arrays ----------------------------------------------------------------------------
+        EmptyArray: () => new SimArray(),
+        AppendToArray: (array: SimArray, value: unknown) => {
+            array.items.push(value);
+            return array;
+        },
+        CountOf: (array: SimArray) => array.items.length,
+        ValueInArray: (array: SimArray, index: number) => array.items[index],
+
+        // ---- objects ---------------------------------------------------------------------------
+        GetObjId: (obj: SimObject) => (obj instanceof SimObject ? obj.objId : -1),
+        GetObjectPosition: (obj: SimObject) => {
+            if (obj instanceof SimPlayer) return obj.position;
+            throw new SimNotImplementedError(`GetObjectPosition(${String(obj)})`);
+        },
+
+        // ---- variables -------------------------------------------------------------------------
+        GlobalVariable: (index: number) => new SimVariable(`g${index}`),
+        ObjectVariable: (obj: SimObject, index: number) => new SimVariable(`o${obj.objId}:${index}`),
+        GetVariable: (v: SimVariable) => sim.variables.get(v.key),
+        SetVariable: (v: SimVariable, value: unknown) => {
+            sim.variables.set(v.key, value);
+        },
+
+        // ---- match -----------------------------------------------------------------------------
+        GetMatchTimeElapsed: () => sim.matchTimeElapsed(),
+        Wait: (seconds: number) => sim.wait(seconds),
+        SendErrorReport: (message: SimMessage) => sim.errorReports.push(message.toString()),
+        Message: (format: string | number | SimPlayer, ...args: (string | number | SimPlayer)[]) =>
+            new SimMessage(format, args),
+        DisplayNotificationMessage: (message: SimMessage, target?: SimPlayer | SimTeam) =>
+            sim.notifications.push({ tick: sim.tickCount, kind: 'Notification', message: message.toString(), target }),
+        DisplayHighlightedWorldLogMessage: (message: SimMessage, target?: SimPlayer | SimTeam) =>
+            sim.notifications.push({ tick: sim.tickCount, kind: 'WorldLog', message: message.toString(), target }),
+
+        // ---- teams and players -----------------------------------------------------------------
+        AllPlayers: () => new SimArray(sim.players.filter((p) => p.valid)),
+        IsPlayerValid: (p: unknown) => p instanceof SimPlayer && p.valid,
+        GetTeam: (arg: SimPlayer | number) => (typeof arg === 'number' ? sim.team(arg) : arg.team),
+        SetTeam: (p: SimPlayer, team: SimTeam) => sim.switchTeam(p, team),
+        GetSoldierState: (p: SimPlayer, state: string) => sim.soldierState(p, state),
+        SetPlayerMaxHealth: (p: SimPlayer, maxHealth: number) => {
+            p.maxHealth = maxHealth;
+            if (p.health > maxHealth) p.health = maxHealth;
+        },
+        Teleport: (p: SimPlayer, destination: SimVector) => (p.position = destination),
+        DealDamage: (p: SimPlayer, amount: number, giver?: SimPlayer) => sim.damage(p, amount, { attacker: giver }),
+        Heal: (p: SimPlayer, amount: number) => sim.heal(p, amount),
+        Kill: (p: SimPlayer) => sim.kill(p),
+        ForceRevive: (p: SimPlayer) => sim.revive(p),
+        UndeployPlayer: (p: SimPlayer) => sim.undeploy(p),
+        EventDamageTypeCompare: (d: SimDamageType, t: number) => d.damageType === t,
+        EventDeathTypeCompare: (d: SimDeathType, t: number) => d.deathType === t,
+
+        // ---- UI --------------------------------------------------------------------------------
+        GetUIRoot: () => sim.ui.root,
+        AddUIContainer: (...args: unknown[]) => sim.ui.add('Container', args),
+        AddUIText: (...args: unknown[]) => sim.ui.add('Text', args),
+        AddUIImage: (...args: unknown[]) => sim.ui.add('Image', args),
+        AddUIButton: (...args: unknown[]) => sim.ui.add('Button', args),
+        FindUIWidgetWithName: (name: string, searchRoot?: SimWidget) => sim.ui.find(name, searchRoot),
+        DeleteUIWidget: (w: SimWidget) => sim.ui.delete(w),
+        DeleteAllUIWidgets: () => sim.ui.deleteAll(),
+        SetUIWidgetName: (w: SimWidget, name: string) => {
+            if (!w || w.deleted) throw new Error('SetUIWidgetName: widget is not valid');
+            w.name = name;
+        },
+        GetUIWidgetName: (w: SimWidget) => {
+            if (!w || w.deleted) throw new Error('GetUIWidgetName: widget is not valid');
+            return w.name;
+        },
+        SetUIWidgetParent: (w: SimWidget, parent: SimWidget) => sim.ui.setParent(w, parent),
+        EnableUIButtonEvent: (w: SimWidget, event: number, enabled: boolean) => {
+            if (enabled) w.buttonEvents.add(event);
+            else w.buttonEvents.delete(event);
+        },
+        EnableUIInputMode: (enabled: boolean, receiver?: SimPlayer | SimTeam) => {
+            const targets =
+                receiver instanceof SimPlayer
+                    ? [receiver]
+                    : sim.players.filter((p) => p.valid && (!receiver || p.team === receiver));
+            targets.forEach((p) => (enabled ? sim.ui.inputMode.add(p.objId) : sim.ui.inputMode.delete(p.objId)));
+        },
+    };
+
+    for (const [fnName, prop] of Object.entries(uiSetters)) {
+        impl[fnName] = (w: SimWidget, value: unknown) => sim.ui.set(w, prop, value);
+    }
+    Object.assign(impl, knownEnums);
+
+    const unimplemented = new Map<string, unknown>();
+
+    const handle = new Proxy(impl, {
+        get(target, key) {
+            if (typeof key !== 'string') return undefined;
+            const value = target[key];
+            if (typeof value === 'function') {
+                return (...args: unknown[]) => {
+                    sim.countCall(key);
+                    return (value as (...a: unknown[]) => unknown)(...args);
+                };
+            }
+            if (value !== undefined) return value;
+
+            // Anything else is either an enum we don't model or a function we don't implement.
+            // Hand back something that works as both: member access yields lazy enum values,
+            // calling it throws.
+            let stub = unimplemented.get(key);
+            if (!stub) {
+                const members = lazyEnum(key);
+                stub = new Proxy(
+                    () => {
+                        throw new SimNotImplementedError(key);
+                    },
+                    { get: (_fn, member) => members[member as string] }
+                );
+                unimplemented.set(key, stub);
+            }
+            return stub;
+        },
+    });
+
+    return handle as unknown as typeof mod;
+}
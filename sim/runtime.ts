@@ -0,0 +1,436 @@
+import { SimDamageType, SimDeathType, SimPlayer, SimTeam, SimVector, simVector } from './entities';
+import { PlayerDamageTypes, PlayerDeathTypes, SoldierStateBool, SoldierStateNumber, SoldierStateVector } from './enums';
+import { createSimMod } from './mod';
+import { SimUI, SimWidget } from './ui';
+
+export type ModeHandlers = Partial<typeof mod.EventHandlerSignatures>;
+export type ModeEvent = keyof typeof mod.EventHandlerSignatures;
+
+export interface SimulatorOptions {
+    tickRate: number;
+    // number of playable teams; team 0 is always the neutral team
+    teamCount: number;
+    maxHealth: number;
+    // lethal damage puts soldiers into man-down instead of killing them outright
+    manDown: boolean;
+    // fraction of max health a soldier comes back with after a revive
+    reviveHealthFraction: number;
+    // minimum damage inside one life for OnPlayerEarnedKillAssist
+    assistMinDamage: number;
+}
+
+const defaultOptions: SimulatorOptions = {
+    tickRate: 30,
+    teamCount: 2,
+    maxHealth: 100,
+    manDown: false,
+    reviveHealthFraction: 0.3,
+    assistMinDamage: 1,
+};
+
+export interface AddPlayerOptions {
+    name?: string;
+    team?: number;
+    isAI?: boolean;
+    position?: SimVector | number[];
+    // deploy immediately after joining (default true)
+    deploy?: boolean;
+}
+
+export interface DamageOptions {
+    attacker?: SimPlayer;
+    // a mod.PlayerDamageTypes member, defaults to Default
+    damageType?: number;
+    weapon?: unknown;
+}
+
+export interface SimEventRecord {
+    tick: number;
+    event: ModeEvent;
+    args: unknown[];
+}
+
+export interface SimNotification {
+    tick: number;
+    kind: 'Notification' | 'WorldLog';
+    message: string;
+    target: SimPlayer | SimTeam | undefined;
+}
+
+interface PendingWait {
+    dueTick: number;
+    resolve: () => void;
+}
+
+// Ongoing* events fire every tick; they are dispatched but not recorded in `events`.
+function isOngoing(event: ModeEvent) {
+    return event.startsWith('Ongoing');
+}
+
+/**
+ * Headless stand-in for a Portal server. Owns the world state (teams, players, health, UI),
+ * exposes it to scripts through an in-memory `mod` namespace and drives their exported event
+ * handlers from a fixed-rate tick loop.
+ *
+ *   const sim = new Simulator().install();
+ *   const mode = await import('../copy-paste/DamageSmoothing');
+ *   sim.load(mode).startMatch();
+ *   const [a, b] = [sim.addPlayer({ team: 1 }), sim.addPlayer({ team: 2, position: [8, 0, 0] })];
+ *   for (let i = 0; i < 3; i++) sim.damage(b, 40, { attacker: a });
+ *   await sim.runSeconds(2);
+ */
+export class Simulator {
+    readonly options: SimulatorOptions;
+    readonly mod: typeof mod;
+    readonly ui: SimUI;
+
+    readonly teams: SimTeam[] = [];
+    readonly players: SimPlayer[] = [];
+
+    tickCount = 0;
+    liveTickCount = 0;
+    matchStarted = false;
+    matchEnded = false;
+
+    readonly events: SimEventRecord[] = [];
+    readonly errorReports: string[] = [];
+    readonly notifications: SimNotification[] = [];
+    readonly variables = new Map<string, unknown>(); // 'g<index>' / 'o<objId>:<index>' -> value
+    readonly callCounts = new Map<string, number>();
+
+    private handlers: ModeHandlers[] = [];
+    private waits: PendingWait[] = [];
+    private asyncErrors: unknown[] = [];
+    private afterTick: ((sim: Simulator) => void)[] = [];
+    private objIdCounter = 0;
+    private previousMod: unknown;
+
+    // The player handed to events that have no "other" player (fall damage, force revive, ...).
+    readonly invalidPlayer: SimPlayer;
+
+    constructor(options: Partial<SimulatorOptions> = {}) {
+        this.options = { ...defaultOptions, ...options };
+        this.ui = new SimUI(() => this.nextObjId());
+        this.mod = createSimMod(this);
+
+        for (let i = 0; i <= this.options.teamCount; i++) {
+            this.teams.push(new SimTeam(this.nextObjId(), i));
+        }
+        this.invalidPlayer = new SimPlayer(-1, '<invalid>', this.teams[0], false, 0, new SimVector(0, 0, 0));
+    }
+
+    private nextObjId() {
+        return this.objIdCounter++;
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Setup
+    //-------------------------------------------------------------------------------------------//
+
+    // Makes this simulator the global `mod`. Scripts read `mod` at call time (and some at module
+    // load time), so install before importing the code under test.
+    install(): this {
+        const g = globalThis as { mod?: unknown };
+        this.previousMod = g.mod;
+        g.mod = this.mod;
+        return this;
+    }
+
+    uninstall(): void {
+        (globalThis as { mod?: unknown }).mod = this.previousMod;
+    }
+
+    // Registers a mode's exported handlers (typically `import * as mode from ...`). Several modules
+    // can be loaded; each event is delivered to them in load order.
+    load(handlers: ModeHandlers | Record<string, unknown>): this {
+        this.handlers.push(handlers as ModeHandlers);
+        return this;
+    }
+
+    onAfterTick(cb: (sim: Simulator) => void): this {
+        this.afterTick.push(cb);
+        return this;
+    }
+
+    team(teamId: number): SimTeam {
+        const team = this.teams[teamId];
+        if (!team) throw new Error(`team ${teamId} does not exist (teamCount = ${this.options.teamCount})`);
+        return team;
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Match flow
+    //-------------------------------------------------------------------------------------------//
+
+    startMatch(): this {
+        this.matchStarted = true;
+        this.dispatch('OnGameModeStarted');
+        return this;
+    }
+
+    timeLimitReached(): this {
+        this.dispatch('OnTimeLimitReached');
+        return this;
+    }
+
+    endMatch(): this {
+        this.dispatch('OnGameModeEnding');
+        this.matchEnded = true;
+        return this;
+    }
+
+    matchTimeElapsed(): number {
+        return this.liveTickCount / this.options.tickRate;
+    }
+
+    secondsToTicks(seconds: number): number {
+        return Math.max(1, Math.ceil(seconds * this.options.tickRate));
+    }
+
+    wait(seconds: number): Promise<void> {
+        return new Promise((resolve) => {
+            this.waits.push({ dueTick: this.tickCount + this.secondsToTicks(seconds), resolve });
+        });
+    }
+
+    // Advances one server frame: resolves due mod.Wait timers, then runs the Ongoing handlers.
+    tick(): void {
+        this.tickCount++;
+        if (this.matchStarted && !this.matchEnded) this.liveTickCount++;
+
+        const due = this.waits.filter((w) => w.dueTick <= this.tickCount);
+        this.waits = this.waits.filter((w) => w.dueTick > this.tickCount);
+        due.forEach((w) => w.resolve());
+
+        this.dispatch('OngoingGlobal');
+        this.teams.slice(1).forEach((t) => this.dispatch('OngoingTeam', t));
+        this.players.filter((p) => p.valid).forEach((p) => this.dispatch('OngoingPlayer', p));
+
+        this.afterTick.forEach((cb) => cb(this));
+    }
+
+    // Runs `n` ticks, letting promise continuations (code after `await mod.Wait(...)`) run
+    // between frames. Rethrows errors raised by async handlers.
+    async runTicks(n: number): Promise<void> {
+        for (let i = 0; i < n; i++) {
+            this.tick();
+            await new Promise<void>((resolve) => setTimeout(resolve, 0));
+            if (this.asyncErrors.length) throw this.asyncErrors.shift();
+        }
+    }
+
+    runSeconds(seconds: number): Promise<void> {
+        return this.runTicks(Math.round(seconds * this.options.tickRate));
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Players
+    //-------------------------------------------------------------------------------------------//
+
+    addPlayer(opts: AddPlayerOptions = {}): SimPlayer {
+        const objId = this.nextObjId();
+        const player = new SimPlayer(
+            objId,
+            opts.name ?? `Player${objId}`,
+            this.team(opts.team ?? 1),
+            opts.isAI ?? false,
+            this.options.maxHealth,
+            simVector(opts.position as SimVector | number[])
+        );
+        player.valid = true;
+        this.players.push(player);
+        this.dispatch('OnPlayerJoinGame', player);
+        if (opts.deploy ?? true) this.deploy(player);
+        return player;
+    }
+
+    removePlayer(player: SimPlayer): void {
+        if (!player.valid) return;
+        player.valid = false;
+        player.deployed = false;
+        player.alive = false;
+        this.dispatch('OnPlayerLeaveGame', player.objId);
+    }
+
+    deploy(player: SimPlayer, position?: SimVector | number[]): void {
+        if (position) player.position = simVector(position);
+        player.deployed = true;
+        player.alive = true;
+        player.manDown = false;
+        player.health = player.maxHealth;
+        player.damageTakenBy.clear();
+        this.dispatch('OnPlayerDeployed', player);
+    }
+
+    undeploy(player: SimPlayer): void {
+        if (!player.deployed) return;
+        player.deployed = false;
+        player.alive = false;
+        player.manDown = false;
+        this.dispatch('OnPlayerUndeploy', player);
+    }
+
+    switchTeam(player: SimPlayer, team: SimTeam): void {
+        if (player.team === team) return;
+        player.team = team;
+        this.dispatch('OnPlayerSwitchTeam', player, team);
+    }
+
+    setPosition(player: SimPlayer, position: SimVector | number[]): void {
+        player.position = simVector(position);
+    }
+
+    healthOf(player: SimPlayer): number {
+        return player.health;
+    }
+
+    soldierState(player: SimPlayer, state: string): number | boolean | SimVector {
+        const alive = player.valid && player.alive;
+        switch (state) {
+            case SoldierStateNumber.CurrentHealth:
+                return alive ? player.health : 0;
+            case SoldierStateNumber.MaxHealth:
+                return player.maxHealth;
+            case SoldierStateNumber.NormalizedHealth:
+                return alive && player.maxHealth > 0 ? player.health / player.maxHealth : 0;
+            case SoldierStateBool.IsAlive:
+                return alive && !player.manDown;
+            case SoldierStateBool.IsDead:
+                return !alive;
+            case SoldierStateBool.IsManDown:
+                return player.manDown;
+            case SoldierStateBool.IsAISoldier:
+                return player.isAI;
+            case SoldierStateVector.GetPosition:
+                return player.position;
+            case SoldierStateVector.EyePosition:
+                return new SimVector(player.position.x, player.position.y + 1.6, player.position.z);
+            case SoldierStateVector.GetFacingDirection:
+                return player.facing;
+        }
+        if (state.startsWith('SoldierStateBool.')) return false;
+        if (state.startsWith('SoldierStateNumber.')) return 0;
+        return new SimVector(0, 0, 0);
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Damage and healing
+    //-------------------------------------------------------------------------------------------//
+
+    // Applies one hit. Health drops immediately and OnPlayerDamaged fires synchronously, so a
+    // handler sees the post-hit health (and may heal it back). If health is still at zero once
+    // the handlers return, the soldier goes down.
+    damage(victim: SimPlayer, amount: number, opts: DamageOptions = {}): void {
+        if (!victim.valid || !victim.alive || victim.manDown) return;
+        if (amount <= 0) return;
+
+        const attacker = opts.attacker && opts.attacker.valid ? opts.attacker : this.invalidPlayer;
+        const damageType = new SimDamageType(opts.damageType ?? PlayerDamageTypes.Default);
+
+        const applied = Math.min(amount, victim.health);
+        victim.health -= applied;
+        if (attacker !== this.invalidPlayer && attacker !== victim) {
+            victim.damageTakenBy.set(attacker.objId, (victim.damageTakenBy.get(attacker.objId) ?? 0) + applied);
+        }
+
+        this.dispatch('OnPlayerDamaged', victim, attacker, damageType, opts.weapon);
+
+        if (victim.alive && !victim.manDown && victim.health <= 0) {
+            const deathType = new SimDeathType(
+                opts.damageType === PlayerDamageTypes.Headshot ? PlayerDeathTypes.Headshot : PlayerDeathTypes.Weapon
+            );
+            if (this.options.manDown) this.putManDown(victim, attacker);
+            else this.die(victim, attacker, deathType, opts.weapon);
+        }
+    }
+
+    heal(player: SimPlayer, amount: number): void {
+        if (!player.valid || !player.alive || player.manDown) return;
+        player.health = Math.min(player.maxHealth, player.health + amount);
+    }
+
+    // mod.Kill: skips man-down and credits nobody.
+    kill(player: SimPlayer): void {
+        if (!player.valid || !player.alive) return;
+        this.die(player, this.invalidPlayer, new SimDeathType(PlayerDeathTypes.Weapon), undefined);
+    }
+
+    revive(player: SimPlayer, reviver?: SimPlayer): void {
+        if (!player.valid || !player.manDown) return;
+        player.manDown = false;
+        player.manDownAttacker = undefined;
+        player.health = Math.max(1, Math.round(player.maxHealth * this.options.reviveHealthFraction));
+        this.dispatch('OnRevived', player, reviver ?? this.invalidPlayer);
+    }
+
+    // Ends man-down without a revive; the kill goes to whoever downed the soldier.
+    bleedOut(player: SimPlayer): void {
+        if (!player.valid || !player.manDown) return;
+        this.die(player, player.manDownAttacker ?? this.invalidPlayer, new SimDeathType(PlayerDeathTypes.Weapon), undefined);
+    }
+
+    private putManDown(victim: SimPlayer, attacker: SimPlayer): void {
+        victim.manDown = true;
+        victim.health = 0;
+        victim.manDownAttacker = attacker;
+        this.dispatch('OnMandown', victim, attacker);
+    }
+
+    private die(victim: SimPlayer, killer: SimPlayer, deathType: SimDeathType, weapon: unknown): void {
+        victim.alive = false;
+        victim.manDown = false;
+        victim.deployed = false;
+        victim.health = 0;
+        victim.manDownAttacker = undefined;
+
+        this.dispatch('OnPlayerDied', victim, killer, deathType, weapon);
+
+        if (killer !== this.invalidPlayer && killer !== victim) {
+            this.dispatch('OnPlayerEarnedKill', killer, victim, deathType, weapon);
+        }
+        victim.damageTakenBy.forEach((dealt, attackerId) => {
+            if (attackerId === killer.objId || dealt < this.options.assistMinDamage) return;
+            const assister = this.players.find((p) => p.objId === attackerId);
+            if (assister && assister.valid) this.dispatch('OnPlayerEarnedKillAssist', assister, victim);
+        });
+        victim.damageTakenBy.clear();
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // UI
+    //-------------------------------------------------------------------------------------------//
+
+    // Simulates a player interacting with a button. Only events enabled through
+    // mod.EnableUIButtonEvent are delivered, as on a live server.
+    pressButton(player: SimPlayer, widget: SimWidget, event: number): void {
+        if (widget.deleted || !widget.buttonEvents.has(event)) return;
+        if (!widget.isVisibleTo(player)) return;
+        this.dispatch('OnPlayerUIButtonEvent', player, widget, event);
+    }
+
+    //-------------------------------------------------------------------------------------------//
+    // Introspection
+    //-------------------------------------------------------------------------------------------//
+
+    countCall(name: string): void {
+        this.callCounts.set(name, (this.callCounts.get(name) ?? 0) + 1);
+    }
+
+    callCount(name: string): number {
+        return this.callCounts.get(name) ?? 0;
+    }
+
+    eventsOf(event: ModeEvent): SimEventRecord[] {
+        return this.events.filter((e) => e.event === event);
+    }
+
+    dispatch(event: ModeEvent, ...args: unknown[]): void {
+        if (!isOngoing(event)) this.events.push({ tick: this.tickCount, event, args });
+        for (const h of this.handlers) {
+            const fn = h[event] as ((...a: unknown[]) => unknown) | undefined;
+            if (typeof fn !== 'function') continue;
+            const result = fn(...args);
+            if (result instanceof Promise) result.catch((e) => this.asyncErrors.push(e));
+        }
+    }
+}
@@ -0,0 +1,113 @@
+// modlib.rules running converted block rules with editor semantics: Ongoing rules fire in declaration
+// order on the tick their conditions become true (not on every tick they hold), a rule that throws
+// doesn't stop the next one, an action list waiting on mod.Wait doesn't refire for the same player,
+// event rules fire per event, disabling stops a rule, and handler names need a known event. Throws
+// (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/blockRules.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`blockRules: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const { rules } = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const simA = sim.addPlayer({ team: 1, name: 'A' });
+    const simB = sim.addPlayer({ team: 2, name: 'B' });
+    const [a, b] = [asMod<mod.Player>(simA), asMod<mod.Player>(simB)];
+    const log: string[] = [];
+    let overtime = false;
+    const inZone = new Set<mod.Player>();
+    const say = (what: string) => () => {
+        log.push(what);
+    };
+
+    rules.add({ name: 'Overtime_Start', event: 'OngoingGlobal', conditions: [() => overtime], actions: [say('start')] });
+    rules.add({
+        name: 'Overtime_Broken',
+        event: 'OngoingGlobal',
+        conditions: [() => overtime],
+        actions: [
+            () => {
+                throw new Error('broken rule');
+            },
+        ],
+    });
+    rules.add({ name: 'Overtime_Music', event: 'OngoingGlobal', conditions: [() => overtime], actions: [say('music')] });
+    rules.add({
+        name: 'Spawn_Protection',
+        event: 'OngoingPlayer',
+        conditions: [(player) => inZone.has(player)],
+        actions: [say('protect'), () => mod.Wait(1), say('unprotect')],
+    });
+    let deaths = 0;
+    rules.add({
+        name: 'Team2_Death',
+        event: 'OnPlayerDied',
+        conditions: [(player) => mod.Equals(mod.GetTeam(player), mod.GetTeam(b))],
+        actions: [
+            () => {
+                deaths++;
+            },
+        ],
+    });
+
+    await sim.runTicks(2);
+    overtime = true;
+    await sim.runTicks(5);
+    check(log.join() === 'start,music', 'Ongoing rules fire once, in declaration order, past a rule that throws');
+
+    log.length = 0;
+    inZone.add(a);
+    await sim.runTicks(2);
+    inZone.delete(a);
+    await sim.runTicks(1);
+    inZone.add(a);
+    await sim.runTicks(1);
+    check(log.join() === 'protect', 'a rule waiting on mod.Wait does not refire for the same player');
+    await sim.runSeconds(1.2);
+    check(log.join() === 'protect,unprotect', 'the actions after the wait run a second later');
+    inZone.delete(a);
+    await sim.runTicks(1);
+    inZone.add(a);
+    await sim.runTicks(1);
+    check(log.join() === 'protect,unprotect,protect', 'the next rising edge fires it again');
+
+    sim.kill(simA);
+    sim.kill(simB);
+    check(deaths === 1, 'event rules fire per event when their conditions hold');
+
+    log.length = 0;
+    rules.setEnabled('Overtime_Start', false);
+    overtime = false;
+    await sim.runTicks(1);
+    overtime = true;
+    await sim.runTicks(1);
+    check(log.join() === 'music' && !rules.isEnabled('Overtime_Start'), 'a disabled rule stays quiet');
+
+    let ticks = 0;
+    rules.addHandlers({
+        OngoingGlobal_Tick_counter: () => {
+            ticks++;
+        },
+    });
+    await sim.runTicks(3);
+    check(ticks === 3, 'an exported handler added by name runs on its event');
+    let threw = false;
+    try {
+        rules.addHandlers({ Spawn_Protection: () => {} });
+    } catch (e) {
+        threw = true;
+    }
+    check(threw, 'handler names without a known event are rejected');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,71 @@
+// modlib button routing with the same ParseUI menu built for two players: each click reaches the
+// handler of the player who clicked, hover comes in and out, events a button has no handler for are
+// never enabled, input mode follows the menu being open or hidden, and deleting the menu or leaving
+// releases its handlers. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/buttonMenus.ts
+
+import { asMod, Simulator, SimPlayer } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`buttonMenus: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const b = sim.addPlayer({ team: 2, name: 'B' });
+    const log: string[] = [];
+    const nameOf = (player: mod.Player) => sim.players.find((p) => p.objId === mod.GetObjId(player))?.name;
+    const openMenu = (player: SimPlayer) =>
+        modlib.ParseUI({
+            type: 'VStack',
+            name: 'menu',
+            menu: true,
+            playerId: asMod<mod.Player>(player),
+            size: [300, 100],
+            children: [
+                {
+                    type: 'Button',
+                    name: 'respawn',
+                    size: ['fill', 50],
+                    onClick: (p: mod.Player) => log.push(`click:${nameOf(p)}`),
+                    onHover: (p: mod.Player, _w: mod.UIWidget, on: boolean) => log.push(`hover:${nameOf(p)}:${on}`),
+                },
+            ],
+        }) as mod.UIWidget;
+    const menuA = openMenu(a);
+    openMenu(b);
+    const respawnA = sim.ui.find('respawn');
+    const respawnB = sim.ui.find(`respawn@p${b.objId}`);
+    if (!respawnA || !respawnB) throw new Error("buttonMenus: each player's copy of the menu has its own button");
+    check(sim.ui.inputMode.has(a.objId) && sim.ui.inputMode.has(b.objId), 'an open menu turns input mode on');
+
+    sim.pressButton(a, respawnA, mod.UIButtonEvent.ButtonUp);
+    sim.pressButton(b, respawnB, mod.UIButtonEvent.ButtonUp);
+    sim.pressButton(a, respawnA, mod.UIButtonEvent.HoverIn);
+    sim.pressButton(a, respawnA, mod.UIButtonEvent.HoverOut);
+    sim.pressButton(a, respawnA, mod.UIButtonEvent.FocusIn);
+    check(log.join() === 'click:A,click:B,hover:A:true,hover:A:false', 'events reach the handler of the player who used them');
+    check(!respawnA.buttonEvents.has(mod.UIButtonEvent.FocusIn), 'events without a handler are not enabled');
+
+    modlib.buttons.setMenuVisible(menuA, false);
+    check(!sim.ui.inputMode.has(a.objId) && !modlib.buttons.isMenuOpen(asMod<mod.Player>(a)), 'hiding the menu turns input mode off');
+    modlib.buttons.setMenuVisible(menuA, true);
+    check(sim.ui.inputMode.has(a.objId), 'showing it again turns it back on');
+
+    const bound = modlib.buttons.count();
+    modlib.widgets.destroy(menuA);
+    check(respawnA.deleted && !sim.ui.inputMode.has(a.objId), 'deleting the menu closes it');
+    check(modlib.buttons.count() === bound - 1, "and releases its buttons' handlers");
+    sim.removePlayer(b);
+    check(modlib.buttons.count() === 0 && !modlib.buttons.isMenuOpen(asMod<mod.Player>(b)), "a leaving player's menu and handlers are dropped");
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
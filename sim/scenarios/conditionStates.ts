@@ -0,0 +1,63 @@
+// modlib player conditions evaluated from OngoingPlayer the way converted block rules do, with a
+// "standing in the zone" input: holdSec fires only after a full second inside, a falling trigger fires
+// on the way out, debounce ignores jitter at the edge, cooldownSec drops refires, and a player who
+// leaves starts fresh. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/conditionStates.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`conditionStates: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+
+    const fired: { [name: string]: number[] } = { held: [], left: [], debounced: [], cooled: [] };
+    modlib.events.on(
+        'OngoingPlayer',
+        (player) => {
+            const inZone = mod.XComponentOf(mod.GetSoldierState(player, mod.SoldierStateVector.GetPosition)) < 10;
+            if (modlib.getPlayerCondition(player, 0, { holdSec: 1 }).update(inZone)) fired.held.push(sim.tickCount);
+            if (modlib.getPlayerCondition(player, 1, { trigger: 'falling' }).update(inZone)) fired.left.push(sim.tickCount);
+            if (modlib.getPlayerCondition(player, 2, { debounceTicks: 3 }).update(inZone)) fired.debounced.push(sim.tickCount);
+            if (modlib.getPlayerCondition(player, 3, { cooldownSec: 2 }).update(inZone)) fired.cooled.push(sim.tickCount);
+        },
+        { module: 'Scenario' }
+    );
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, position: [50, 0, 0] });
+    await sim.runTicks(5);
+    sim.setPosition(a, [0, 0, 0]);
+    const entered = sim.tickCount + 1;
+    await sim.runTicks(20);
+    check(fired.held.length === 0 && fired.cooled.length === 1, 'holdSec waits while a plain condition fires on entry');
+    await sim.runTicks(40);
+    check(fired.held.length === 1 && fired.held[0] === entered + 30, 'holdSec: 1 fires once, a second after entering');
+    check(fired.debounced.length === 1 && fired.debounced[0] === entered + 2, 'debounce fires once the input has settled');
+
+    sim.setPosition(a, [50, 0, 0]);
+    await sim.runTicks(5);
+    check(fired.left.length === 1, 'a falling trigger fires on the way out');
+
+    // jitter at the zone edge: two ticks in, two out
+    for (let i = 0; i < 20; i++) {
+        sim.setPosition(a, [i % 4 < 2 ? 0 : 50, 0, 0]);
+        await sim.runTicks(1);
+    }
+    check(fired.debounced.length === 1, 'debounce ignores the jitter');
+    check(fired.cooled.length === 2, 'cooldownSec: 2 fires once in 20 ticks of jitter');
+    check(fired.left.length > 2, 'without options the jitter fires every time');
+
+    const condition = modlib.getPlayerCondition(asMod<mod.Player>(a), 0);
+    sim.removePlayer(a);
+    check(modlib.getPlayerCondition(asMod<mod.Player>(a), 0) !== condition, "a leaving player's conditions are dropped");
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
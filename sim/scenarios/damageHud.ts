@@ -0,0 +1,54 @@
+// Pending-damage HUD of copy-paste/DamageSmoothing.ts: a queued hit shows the victim a bar whose ghost
+// segment covers the queued damage and shrinks as it drains, the attacker gets a short hit marker, the
+// bar hides once the queue is empty, and a leaving player's widgets are destroyed. Throws (non-zero exit)
+// on a failed check.
+//
+//   npx tsx sim/scenarios/damageHud.ts
+
+import { Simulator, SimVector, SimWidget } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`damageHud: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const { damageHud } = await import('../../copy-paste/DamageSmoothing.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const b = sim.addPlayer({ team: 2, name: 'B', position: [8, 0, 0] });
+    await sim.runTicks(3);
+
+    sim.damage(b, 40, { attacker: a });
+    check(sim.ui.find(`dmgHud_${b.objId}`) === undefined, 'the HUD creates nothing while disabled');
+    await sim.runSeconds(3);
+
+    damageHud.configure({ enabled: true });
+    sim.damage(b, 40, { attacker: a });
+    const widgets = [`dmgHud_${b.objId}`, `dmgHud_${b.objId}_health`, `dmgHud_${b.objId}_pending`, `dmgHit_${a.objId}`].map(
+        (name) => sim.ui.find(name)
+    );
+    check(widgets.every((w) => w !== undefined), 'the bar and the hit marker are created on the first queued hit');
+    const [bar, health, pending, marker] = widgets as SimWidget[];
+    const width = (w: SimWidget) => (w.props.size as SimVector).x;
+
+    check(bar.isVisibleTo(b) && !bar.isVisibleTo(a), 'the bar is shown to the victim only');
+    check(width(health) === 48 && width(pending) === 96, 'the ghost segment covers the queued 40 of the 60 left');
+    check(marker.isVisibleTo(a) && !marker.isVisibleTo(b), 'the hit marker is shown to the attacker only');
+
+    await sim.runTicks(10);
+    check(!marker.visible, 'the hit marker hides after a few ticks');
+    check(width(pending) < 96 && width(health) === 48, 'the ghost shrinks as the queue drains, the health that will be left stays put');
+
+    await sim.runSeconds(3);
+    check(b.health === 20 && !bar.visible, 'the bar hides once the queue is empty');
+
+    sim.removePlayer(b);
+    check(bar.deleted && health.deleted && pending.deleted, "a leaving player's bar is destroyed");
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,42 @@
+// Two attackers on one victim with copy-paste/DamageSmoothing.ts: C hits for 90, then A for 30. Queued
+// damage is kept per attacker, so A, whose real hit was the lethal one, gets the kill even though most
+// of the smoothed damage is C's, and C gets the assist. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/damageLedgerCredit.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`damageLedgerCredit: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const { damageSmoother } = await import('../../copy-paste/DamageSmoothing.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const c = sim.addPlayer({ team: 1, name: 'C', position: [30, 0, 0] });
+    const b = sim.addPlayer({ team: 2, name: 'B', position: [8, 0, 0] });
+    await sim.runTicks(3);
+
+    sim.damage(b, 90, { attacker: c });
+    await sim.runTicks(5);
+    sim.damage(b, 30, { attacker: a });
+    check(b.health > 0, 'the victim is still up after both hits');
+    check(damageSmoother.getQueuedDamage(asMod<mod.Player>(b)) > 0, 'damage from both attackers is queued');
+
+    await sim.runSeconds(4);
+    const kills = sim.eventsOf('OnPlayerEarnedKill');
+    const assists = sim.eventsOf('OnPlayerEarnedKillAssist');
+    check(b.health <= 0, 'the queued damage kills the victim');
+    check(kills.length === 1, 'exactly one kill is credited');
+    check(assists.length === 1, 'exactly one assist is credited');
+    check(kills[0].args[0] === a, 'the kill goes to the attacker whose hit was lethal');
+    check(assists[0].args[0] === c && assists[0].args[1] === b, 'the other attacker gets the assist on the victim');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,70 @@
+// Health changes around copy-paste/DamageSmoothing.ts with man-down on: regen picked up by the health
+// cache and heals through damageSmoother.heal() keep the next hit's size right, and damage queued when
+// a soldier goes down is dropped ("cancel"), held until the revive ("keep") or dealt at once ("apply"),
+// set per player with overrides. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/damageManDownRevive.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`damageManDownRevive: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator({ manDown: true }).install();
+    const { damageSmoother } = await import('../../copy-paste/DamageSmoothing.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const c = sim.addPlayer({ team: 1, name: 'C' });
+    const [regen, healed, cancel, keep, apply] = ['Regen', 'Healed', 'Cancel', 'Keep', 'Apply'].map((name) =>
+        sim.addPlayer({ team: 2, name, position: [8, 0, 0] })
+    );
+    const melee = { attacker: a, damageType: mod.PlayerDamageTypes.Melee };
+    const queued = (p: typeof a) => damageSmoother.getQueuedDamage(asMod<mod.Player>(p));
+    await sim.runTicks(3);
+
+    // regen / heals between hits
+    sim.damage(regen, 50, melee);
+    sim.heal(regen, 30);
+    await sim.runTicks(3);
+    sim.damage(regen, 40, { attacker: a });
+    check(regen.health === 80 && queued(regen) === 40, 'regen is picked up by the health cache before the next hit');
+
+    sim.damage(healed, 50, melee);
+    damageSmoother.heal(asMod<mod.Player>(healed), 30);
+    sim.damage(healed, 40, { attacker: a });
+    check(healed.health === 80 && queued(healed) === 40, 'a heal through damageSmoother.heal() moves the baseline at once');
+
+    // man-down with damage still queued
+    damageSmoother.setPlayerOverride(asMod<mod.Player>(keep), { manDownPending: 'keep' });
+    damageSmoother.setPlayerOverride(asMod<mod.Player>(apply), { manDownPending: 'apply' });
+    for (const victim of [cancel, keep, apply]) {
+        sim.damage(victim, 20, { attacker: c });
+        check(queued(victim) === 20, `${victim.name}: a hit is queued`);
+    }
+    const dealt = sim.callCount('DealDamage');
+    for (const victim of [cancel, keep, apply]) sim.damage(victim, 100, melee);
+    check(cancel.manDown && keep.manDown && apply.manDown, 'a melee hit downs all three');
+    check(queued(cancel) === 0, '"cancel" drops the queue on man-down');
+    check(queued(keep) === 20, '"keep" holds it while downed');
+    check(queued(apply) === 0 && sim.callCount('DealDamage') === dealt + 1, '"apply" deals it in one go');
+
+    await sim.runSeconds(1);
+    check(queued(keep) === 20, 'nothing drains from a downed soldier');
+
+    for (const victim of [cancel, keep, apply]) sim.revive(victim, c);
+    const revived = cancel.health;
+    await sim.runSeconds(3);
+    check(cancel.health === revived && apply.health === revived, '"cancel" and "apply" start clean after the revive');
+    check(keep.health === revived - 20 && queued(keep) === 0, '"keep" drains the held damage after the revive');
+
+    sim.damage(cancel, 10, { attacker: a });
+    check(cancel.health === revived && queued(cancel) === 10, 'the first hit after a revive is measured from the revive health');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
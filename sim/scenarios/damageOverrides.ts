@@ -0,0 +1,65 @@
+// Runtime tuning of copy-paste/DamageSmoothing.ts: instances keep their own config, a team override
+// turns smoothing off for that team, a player override wins over it, a shorter window in a player
+// override drains that player's queue sooner, pause() lets hits land instantly while it freezes the
+// queue, and clearing the overrides goes back to the base config. Throws (non-zero exit) on a failed
+// check.
+//
+//   npx tsx sim/scenarios/damageOverrides.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`damageOverrides: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const { DamageSmoother, damageSmoother } = await import('../../copy-paste/DamageSmoothing.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const red = sim.addPlayer({ team: 1, name: 'Red', position: [8, 0, 0] });
+    const [blue, vip, fast] = ['Blue', 'Vip', 'Fast'].map((name) => sim.addPlayer({ team: 2, name, position: [8, 0, 0] }));
+    const enemy = sim.addPlayer({ team: 2, name: 'Enemy' });
+    await sim.runTicks(3);
+
+    const custom = new DamageSmoother({ closeSec: 1 });
+    custom.configure({ manDownPending: 'keep' });
+    check(custom.getConfig().closeSec === 1 && custom.getConfig().manDownPending === 'keep', 'a new DamageSmoother takes its own config');
+    check(damageSmoother.getConfig().closeSec === 2 && damageSmoother.getConfig().manDownPending === 'cancel', 'the shared instance keeps the defaults');
+
+    const team2 = asMod<mod.Team>(sim.team(2));
+    damageSmoother.setTeamOverride(team2, { enabled: false });
+    damageSmoother.setPlayerOverride(asMod<mod.Player>(vip), { enabled: true });
+    sim.damage(blue, 40, { attacker: a });
+    sim.damage(vip, 40, { attacker: a });
+    sim.damage(red, 40, { attacker: enemy });
+    check(blue.health === 60, 'a team override with enabled: false lets hits on that team land instantly');
+    check(vip.health === 100, 'a player override wins over the team override');
+    check(red.health === 100, 'the other team keeps the base config');
+
+    damageSmoother.clearTeamOverride(team2);
+    damageSmoother.setPlayerOverride(asMod<mod.Player>(fast), { closeSec: 0.2 });
+    sim.damage(fast, 40, { attacker: a });
+    await sim.runTicks(10);
+    check(fast.health === 60 && vip.health > 60, "a shorter window in a player override drains only that player's queue sooner");
+
+    damageSmoother.pause();
+    const queued = damageSmoother.getQueuedDamage(asMod<mod.Player>(vip));
+    sim.damage(blue, 20, { attacker: a });
+    await sim.runTicks(10);
+    check(blue.health === 40, 'hits land instantly while paused');
+    check(damageSmoother.getQueuedDamage(asMod<mod.Player>(vip)) === queued, 'queued damage is frozen while paused');
+
+    damageSmoother.resume();
+    damageSmoother.clearPlayerOverride(asMod<mod.Player>(vip));
+    await sim.runSeconds(3);
+    check(vip.health === 60 && red.health === 60, 'the frozen queue drains after resume()');
+    sim.damage(blue, 20, { attacker: a });
+    check(blue.health === 40, 'clearing the team override goes back to smoothing');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,49 @@
+// Damage-type and weapon policies of copy-paste/DamageSmoothing.ts, one fresh victim per hit: a body
+// shot is fully deferred, melee passes through, a headshot defers only half unless it is lethal on its
+// own, and a weapon policy added at runtime overrides the distance-based spread. Throws (non-zero exit)
+// on a failed check.
+//
+//   npx tsx sim/scenarios/damagePolicies.ts
+
+import { Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`damagePolicies: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const { damageSmoother } = await import('../../copy-paste/DamageSmoothing.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const [body, melee, head, oneShot, sniped] = ['Body', 'Melee', 'Head', 'OneShot', 'Sniped'].map((name) =>
+        sim.addPlayer({ team: 2, name, position: [8, 0, 0] })
+    );
+    await sim.runTicks(3);
+
+    sim.damage(body, 40, { attacker: a });
+    check(body.health === 100, 'a regular bullet hit is deferred completely');
+
+    sim.damage(melee, 40, { attacker: a, damageType: mod.PlayerDamageTypes.Melee });
+    check(melee.health === 60, 'melee passes through');
+
+    sim.damage(head, 40, { attacker: a, damageType: mod.PlayerDamageTypes.Headshot });
+    check(head.health === 80, 'a headshot lands half now and defers the rest');
+
+    sim.damage(oneShot, 120, { attacker: a, damageType: mod.PlayerDamageTypes.Headshot });
+    check(oneShot.health <= 0 && sim.eventsOf('OnPlayerDied').length === 1, 'a headshot that kills on its own lands instantly');
+
+    const sniper = mod.Weapons.Sniper_M2010_ESR;
+    damageSmoother.configure({ weaponPolicies: [{ weapon: sniper, policy: { passThrough: true } }] });
+    sim.damage(sniped, 50, { attacker: a, weapon: sniper });
+    check(sniped.health === 50, 'a weapon policy configured at runtime applies to that weapon');
+
+    await sim.runSeconds(3);
+    check(body.health === 60 && head.health === 60, 'deferred damage is all dealt in the end');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,38 @@
+// Burst-and-kill run of copy-paste/DamageSmoothing.ts: three 40 damage hits land on one tick, the
+// victim survives that tick and dies once the smoothed damage has been applied, with the kill
+// credited to the attacker. Throws (non-zero exit) if any of that doesn't hold.
+//
+//   npx tsx sim/scenarios/damageSmoothingBurst.ts
+
+import { Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`damageSmoothingBurst: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    // installed before the mode modules load; `.js` is what NodeNext resolution wants, tsx maps it to the .ts file
+    const sim = new Simulator().install();
+    await import('../../copy-paste/DamageSmoothing.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const b = sim.addPlayer({ team: 2, name: 'B', position: [8, 0, 0] });
+    await sim.runTicks(3);
+
+    for (let i = 0; i < 3; i++) sim.damage(b, 40, { attacker: a });
+    check(b.health > 0, 'the victim survives the tick the burst lands on');
+
+    await sim.runTicks(3);
+    check(b.health > 0 && b.health < 100, 'damage is spread over the following ticks');
+
+    await sim.runSeconds(2);
+    const kills = sim.eventsOf('OnPlayerEarnedKill');
+    check(b.health <= 0, 'all 120 damage is dealt in the end');
+    check(kills.length === 1 && kills[0].args[0] === a, 'the kill is credited to the attacker');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
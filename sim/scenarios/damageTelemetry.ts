@@ -0,0 +1,61 @@
+// DamageSmoothing telemetry with collectStats on: a same-frame burst is counted as one burst, every
+// intercepted hit shows up in the totals and per victim (sorted by ObjId), and the report written at
+// OnGameModeEnding is one JSON line that parses back to getStats(). resetStats() starts a clean
+// window. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/damageTelemetry.ts
+
+import { Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`damageTelemetry: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const { damageSmoother } = await import('../../copy-paste/DamageSmoothing.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    damageSmoother.configure({ collectStats: true });
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const b = sim.addPlayer({ team: 2, name: 'B', position: [8, 0, 0] });
+    const c = sim.addPlayer({ team: 2, name: 'C', position: [40, 0, 0] });
+    await sim.runTicks(3);
+
+    const calls = { deal: sim.callCount('DealDamage'), heal: sim.callCount('Heal') };
+    sim.damage(c, 30, { attacker: a });
+    for (let i = 0; i < 3; i++) sim.damage(b, 40, { attacker: a });
+    await sim.runSeconds(3);
+
+    const stats = damageSmoother.getStats();
+    check(stats.hitsSeen === 4 && stats.hitsIntercepted === 4 && stats.damageDeferred === 150, 'every intercepted hit is counted');
+    check(stats.largestBurst === 120, 'three hits in one frame are one 120 burst');
+    check(stats.queueTicks.max === 60, 'the close-range window (2 s) is the longest picked');
+    check(stats.killsWithQueued === 1, 'the kill that left damage queued is counted');
+    check(stats.extraHealCalls === sim.callCount('Heal') - calls.heal, 'heals match the Heal calls made');
+    check(stats.extraDealDamageCalls === sim.callCount('DealDamage') - calls.deal, 're-applied steps match the DealDamage calls made');
+    check(
+        stats.victims.map((v) => `${v.objId}:${v.hitsIntercepted}:${v.damageDeferred}`).join() === `${b.objId}:3:120,${c.objId}:1:30`,
+        'per-victim numbers are listed by ObjId'
+    );
+
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => lines.push(args.join(' '));
+    sim.endMatch();
+    console.log = log;
+    const prefix = '[DamageSmoothing] stats ';
+    const dump = lines.find((line) => line.startsWith(prefix)) ?? '';
+    check(dump !== '' && dump.indexOf('\n') < 0, 'the report is written as one line at the end of the match');
+    const parsed = JSON.parse(dump.slice(prefix.length));
+    check(JSON.stringify(parsed) === JSON.stringify(damageSmoother.getStats()), 'and parses back to getStats()');
+
+    damageSmoother.resetStats();
+    const fresh = damageSmoother.getStats();
+    check(fresh.hitsSeen === 0 && fresh.victims.length === 0 && fresh.matchSeconds === 0, 'resetStats() starts a clean window');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,86 @@
+// PerfThrottles and DamageSmoothing pasted into one mode next to EventExports: both run off the single
+// OngoingGlobal export, handlers run by order then registration, a throwing handler doesn't stop the
+// rest, changes made during a dispatch apply from the next one, and a whole module can be switched
+// off and on. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/eventRouter.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`eventRouter: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const { scheduler } = await import('../../copy-paste/PerfThrottles.js');
+    await import('../../copy-paste/DamageSmoothing.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const b = sim.addPlayer({ team: 2, name: 'B', position: [8, 0, 0] });
+    await sim.runTicks(3);
+
+    let scheduled = 0;
+    scheduler.everyTicks(1, () => scheduled++);
+    for (let i = 0; i < 3; i++) sim.damage(b, 40, { attacker: a });
+    await sim.runTicks(3);
+    check(scheduled === 3 && b.health > 0 && b.health < 100, 'both tools run off the one OngoingGlobal export');
+
+    const order: string[] = [];
+    const say = (what: string) => () => {
+        order.push(what);
+    };
+    const opts = (order: number) => ({ module: 'Scenario', order });
+    modlib.events.on('OnPlayerDied', say('last'), opts(modlib.EVENT_ORDER_LAST));
+    modlib.events.on('OnPlayerDied', say('default 1'), opts(modlib.EVENT_ORDER_DEFAULT));
+    modlib.events.on('OnPlayerDied', say('first'), opts(modlib.EVENT_ORDER_FIRST));
+    modlib.events.on(
+        'OnPlayerDied',
+        () => {
+            throw new Error('broken handler');
+        },
+        opts(modlib.EVENT_ORDER_DEFAULT)
+    );
+    const late = modlib.events.on('OnPlayerDied', say('default 2'), opts(modlib.EVENT_ORDER_DEFAULT));
+    let killer: mod.Player | undefined;
+    modlib.events.on(
+        'OnPlayerDied',
+        (player, otherPlayer) => {
+            if (player === asMod<mod.Player>(b)) killer = otherPlayer;
+            // both only take effect from the next OnPlayerDied
+            modlib.events.off(late);
+            modlib.events.on('OnPlayerDied', say('added'), opts(modlib.EVENT_ORDER_FIRST));
+        },
+        opts(modlib.EVENT_ORDER_FIRST)
+    );
+
+    const errors: string[] = [];
+    const error = console.error;
+    console.error = (...args: unknown[]) => errors.push(args.join(' '));
+    await sim.runSeconds(2);
+    check(b.health <= 0 && killer === asMod<mod.Player>(a), 'handlers get the typed event arguments');
+    check(order.join() === 'first,default 1,default 2,last', 'handlers run by order, then registration order');
+    check(errors.length === 1 && errors[0].includes('(Scenario)'), 'a throwing handler is logged with its module and the rest still run');
+
+    order.length = 0;
+    sim.kill(a);
+    console.error = error;
+    check(order.join() === 'first,added,default 1,last', 'on() and off() during a dispatch apply from the next one');
+
+    const c = sim.addPlayer({ team: 2, name: 'C', position: [8, 0, 0] });
+    await sim.runTicks(3);
+    modlib.events.setModuleEnabled('DamageSmoothing', false);
+    sim.damage(c, 40, { attacker: a });
+    check(c.health === 60 && !modlib.events.isModuleEnabled('DamageSmoothing'), 'a disabled module is skipped');
+
+    modlib.events.setModuleEnabled('DamageSmoothing', true);
+    sim.damage(c, 40, { attacker: a });
+    check(c.health > 20, 'and picks up again when enabled');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,98 @@
+// modlib layout on a live server: a scoreboard built with percentages, a VStack, an HStack and a Grid
+// comes out at the pixel positions and sizes LayoutUI computes, a hidden child takes no space, and in
+// a bound stack the rows below a removed row move up with one SetUIWidgetPosition call. Throws
+// (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/layoutStacks.ts
+
+import { asMod, Simulator, SimVector } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`layoutStacks: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+
+    // [x, y, width, height] as the SDK got them
+    const box = (name: string) => {
+        const w = sim.ui.find(name);
+        if (!w) return 'missing';
+        const [position, size] = [w.props.position as SimVector, w.props.size as SimVector];
+        return [position.x, position.y, size.x, size.y].join();
+    };
+
+    modlib.ParseUI({
+        type: 'Container',
+        name: 'board',
+        position: ['50%', 0],
+        size: ['25%', '50%'],
+        children: [
+            {
+                type: 'VStack',
+                name: 'list',
+                size: ['fill', 'fill'],
+                spacing: 4,
+                children: [
+                    { type: 'Text', name: 'title', size: ['fill', 40], textLabel: 'Scores' },
+                    { type: 'Text', name: 'hidden', size: ['fill', 40], visible: false },
+                    {
+                        type: 'HStack',
+                        name: 'header',
+                        size: ['fill', 30],
+                        spacing: 10,
+                        children: [
+                            { type: 'Text', name: 'rank', size: [60, 'fill'] },
+                            { type: 'Text', name: 'player', size: ['fill', 'fill'] },
+                            { type: 'Text', name: 'score', size: ['fill', 'fill'] },
+                        ],
+                    },
+                    {
+                        type: 'Grid',
+                        name: 'medals',
+                        size: ['fill', 'fill'],
+                        columns: 3,
+                        spacing: 6,
+                        cellSize: ['fill', 20],
+                        children: [1, 2, 3, 4].map((i) => ({ type: 'Image', name: `medal${i}` })),
+                    },
+                ],
+            },
+        ],
+    });
+    check(box('board') === '960,0,480,540', 'percentages resolve against the 1920 x 1080 screen');
+    check(box('title') === '0,0,480,40' && box('header') === '0,44,480,30', 'a VStack places children top-down with spacing');
+    check(box('medals') === '0,78,480,462', "the hidden child takes no space and 'fill' gets the rest");
+    check(
+        box('rank') === '0,0,60,30' && box('player') === '70,0,200,30' && box('score') === '280,0,200,30',
+        "an HStack splits the leftover width between 'fill' children"
+    );
+    check(box('medal3') === '324,0,156,20' && box('medal4') === '0,26,156,20', 'a Grid wraps after its column count');
+
+    const view = modlib.ui.bind(
+        {
+            type: 'VStack',
+            name: 'kills',
+            size: [200, 'fill'],
+            spacing: 2,
+            playerId: asMod<mod.Player>(a),
+            children: (s: { rows: string[] }) =>
+                s.rows.map((row) => ({ type: 'Text', key: row, name: `kill-${row}`, size: ['fill', 20], textLabel: row })),
+        },
+        { rows: ['a', 'b', 'c'] }
+    );
+    check(box('kill-c') === '0,44,200,20', 'bound rows are stacked');
+    const moves = sim.callCount('SetUIWidgetPosition');
+    view.update({ rows: ['a', 'c'] });
+    view.flush();
+    check(box('kill-b') === 'missing' && box('kill-c') === '0,22,200,20', 'removing a row moves the next one up');
+    check(sim.callCount('SetUIWidgetPosition') === moves + 1, 'only the moved row is repositioned');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,34 @@
+// Match lifecycle with a player who is already in the match when the mode starts: their
+// OnPlayerJoinGame was never forwarded, yet they count toward minPlayers and the match goes Live.
+// Throws (non-zero exit) if it stays in WaitingForPlayers.
+//
+//   npx tsx sim/scenarios/lifecyclePlayersBeforeStart.ts
+
+import { Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`lifecyclePlayersBeforeStart: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    // installed before the mode modules load; `.js` is what NodeNext resolution wants, tsx maps it to the .ts file
+    const sim = new Simulator().install();
+    const mode = await import('../../copy-paste/EventExports.js');
+    const modlib = await import('../../modlib/index.js');
+
+    // joins before the handlers are loaded, so the lifecycle never hears OnPlayerJoinGame
+    sim.addPlayer({ team: 1, name: 'A' });
+    check(modlib.matchLifecycle.getPhase() === 'WaitingForPlayers', 'nothing happens before the match starts');
+
+    sim.load(mode).startMatch();
+    await sim.runTicks(3);
+    check(modlib.matchLifecycle.getPlayerCount() === 1, 'the player is counted');
+    check(modlib.matchLifecycle.isLive(), 'the match is Live with minPlayers 1');
+
+    sim.addPlayer({ team: 2, name: 'B' });
+    check(modlib.matchLifecycle.getPlayerCount() === 2, 'later joins are still counted');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
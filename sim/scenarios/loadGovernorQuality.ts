@@ -0,0 +1,33 @@
+// PerfThrottles' LoadGovernor lowering DamageSmoothing's quality: the simulator runs at 25 Hz of
+// match time, so the governor measures a strained server, publishes that through modlib.quality and
+// DamageSmoothing's health cache is refreshed half as often. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/loadGovernorQuality.ts
+
+import { Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`loadGovernorQuality: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    // 25 ticks per match second: below the governor's 27 Hz "strained" threshold, above 22 Hz "critical"
+    const sim = new Simulator({ tickRate: 25 }).install();
+    const modlib = await import('../../modlib/index.js');
+    const perf = await import('../../copy-paste/PerfThrottles.js');
+    const dmg = await import('../../copy-paste/DamageSmoothing.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    for (let i = 0; i < 4; i++) sim.addPlayer({ team: 1 + (i % 2) });
+    check(dmg.damageSmoother.getHealthCacheStaleness() === 2, 'the health cache starts at its configured rate');
+
+    await sim.runSeconds(8); // a few 2 s measurement windows
+    check(perf.loadGovernor.getLevel() === 'strained', 'the governor measures a strained server');
+    check(modlib.quality.getLevel() === 'strained', 'the level is published to modlib.quality');
+    check(dmg.damageSmoother.getHealthCacheStaleness() === 4, "DamageSmoothing's health cache is stretched x2");
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
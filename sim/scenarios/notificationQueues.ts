@@ -0,0 +1,69 @@
+// modlib.notifications on a live match: a replaced message's expiry doesn't take the newer one down,
+// enqueued messages follow in priority order, a lower priority can't replace a higher one, 'ifIdle'
+// is dropped on a busy channel, a team message only reaches that team, and nothing is left behind
+// once the queues drain or the player leaves. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/notificationQueues.ts
+
+import type { NotificationChannel } from '../../modlib/index.js';
+import { asMod, Simulator, SimPlayer } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`notificationQueues: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const simA = sim.addPlayer({ team: 1, name: 'A' });
+    const simB = sim.addPlayer({ team: 2, name: 'B' });
+    const [a, b] = [asMod<mod.Player>(simA), asMod<mod.Player>(simB)];
+    const notes = modlib.notifications;
+    const slot = mod.CustomNotificationSlots.MessageText1;
+    // text of the widget a player sees on a channel
+    const shown = (player: SimPlayer, channel: NotificationChannel = slot) =>
+        sim.ui
+            .all()
+            .find((w) => w.receiver === player && w.name.split('@')[0] === modlib.notificationWidgetName(channel))?.text;
+
+    notes.show(mod.Message('one'), slot, 1, a);
+    await sim.runSeconds(0.5);
+    notes.show(mod.Message('two'), slot, 2, a);
+    await sim.runSeconds(0.8);
+    check(shown(simA) === 'two', "the replaced message's expiry leaves the new one up");
+    await sim.runSeconds(1.5);
+    check(shown(simA) === undefined && !notes.isShowing(a, slot), 'the new one expires on its own time');
+
+    notes.show(mod.Message('first'), slot, 1, a);
+    notes.show(mod.Message('later'), slot, 1, a, { policy: 'enqueue' });
+    notes.show(mod.Message('urgent'), slot, 1, a, { policy: 'enqueue', priority: 5 });
+    check(shown(simA) === 'first' && notes.queuedCount(a, slot) === 2, 'enqueued messages wait');
+    await sim.runSeconds(1.1);
+    check(shown(simA) === 'urgent', 'the higher priority goes first');
+    await sim.runSeconds(1);
+    check(shown(simA) === 'later', 'then the rest in arrival order');
+
+    notes.show(mod.Message('alert'), slot, 0, a, { priority: 3 });
+    notes.show(mod.Message('chatter'), slot, 1, a);
+    check(shown(simA) === 'alert' && notes.queuedCount(a, slot) === 1, "a lower priority 'replace' is queued instead");
+    check(notes.show(mod.Message('idle'), slot, 1, a, { policy: 'ifIdle' }) === 0, "'ifIdle' is dropped on a busy channel");
+    notes.skip(slot, a);
+    check(shown(simA) === 'chatter', 'skip() moves on to the queued message');
+
+    notes.showGameMode(mod.Message('overtime'), asMod<mod.Team>(sim.team(1)));
+    check(shown(simA, 'GameMode') === 'overtime' && shown(simB, 'GameMode') === undefined, 'a team message reaches only that team');
+
+    notes.show(mod.Message('b'), slot, 5, b);
+    notes.show(mod.Message('b2'), slot, 5, b, { policy: 'enqueue' });
+    sim.removePlayer(simB);
+    await sim.runSeconds(7);
+    check(!notes.isShowing(a, slot) && !notes.isShowing(a, 'GameMode'), 'every channel drains');
+    check(modlib.widgets.count() === 0 && modlib.timers.count() === 0, 'no widgets or timers are left, also of the player who left');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,72 @@
+// modlib.players through one player's whole life: someone already in the match before the handlers
+// load is picked up by OngoingPlayer, the registry state follows deploy / man-down / revive / death /
+// team switch / leave, lifecycle listeners fire in that order, and data slots are cleaned up on leave
+// after the `leave` listeners have seen them. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/playerRegistry.ts
+
+import { Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`playerRegistry: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator({ manDown: true }).install();
+    const modlib = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    const registry = modlib.players;
+
+    const log: string[] = [];
+    for (const event of ['join', 'deploy', 'mandown', 'revived', 'died', 'teamSwitch', 'undeploy', 'leave'] as const) {
+        registry.on(event, (sp) => log.push(`${event}:${sp.id}`));
+    }
+    const cleaned: string[] = [];
+    const kills = registry.createSlot('kills', () => 0, (value, sp) => cleaned.push(`${sp.id}=${value}`));
+    let killsSeenOnLeave = -1;
+    registry.on('leave', (sp) => (killsSeenOnLeave = kills.get(sp)));
+
+    const early = sim.addPlayer({ team: 1, name: 'Early' }); // no handlers loaded yet
+    sim.load(mode).startMatch();
+    await sim.runTicks(1);
+    check(
+        registry.has(early.objId) && log[0] === `join:${early.objId}`,
+        'a player from before the start is picked up by OngoingPlayer'
+    );
+
+    const a = sim.addPlayer({ team: 2, name: 'A', isAI: true });
+    const sp = registry.get(a.objId);
+    if (!sp) throw new Error('playerRegistry: a joining player is tracked');
+    check(
+        registry.count() === 2 && sp.isAI && sp.teamId === sim.team(2).objId && sp.isDeployed,
+        'join fills in team, AI flag and deploy state'
+    );
+    kills.set(sp, 3);
+
+    sim.damage(a, 100, { attacker: early });
+    check(sp.isManDown && !sp.isAlive(), 'man-down is tracked');
+    sim.revive(a, early);
+    check(!sp.isManDown && sp.isAlive(), 'so is the revive');
+    sim.damage(a, 100, { attacker: early });
+    sim.bleedOut(a);
+    check(!sp.isDeployed && !sp.isManDown, 'death leaves the player undeployed');
+
+    sim.deploy(a);
+    sim.switchTeam(a, sim.team(1));
+    check(
+        sp.teamId === sim.team(1).objId && sp.previousTeamId === sim.team(2).objId,
+        'a team switch keeps the previous team'
+    );
+    sim.undeploy(a);
+    check(kills.get(sp) === 3, 'slot values live as long as the player is in the match');
+
+    sim.removePlayer(a);
+    check(!registry.has(a.objId) && registry.count() === 1 && sp.hasLeft && !sp.isValid(), 'leaving drops the record');
+    check(killsSeenOnLeave === 3 && cleaned.join() === `${a.objId}=3`, '`leave` listeners run before the slot cleanup');
+    const expected = ['join', 'deploy', 'mandown', 'revived', 'mandown', 'died', 'deploy', 'teamSwitch', 'undeploy'];
+    check(log.slice(1).join() === [...expected, 'leave'].map((e) => `${e}:${a.objId}`).join(), 'listeners fire in lifecycle order');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
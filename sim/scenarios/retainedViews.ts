@@ -0,0 +1,92 @@
+// modlib.ui.bind on a live match: a per-player HUD bound to state is created once, an update that
+// changes nothing sends no SetUI* calls, several updates inside one flush interval are batched into
+// the calls for the last state, keyed children are created, moved and deleted in place, and the view
+// goes away with its player. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/retainedViews.ts
+
+import { asMod, Simulator, SimVector } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`retainedViews: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+interface HudState {
+    score: number;
+    streak: number;
+    rows: string[];
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const setCalls = () => {
+        let n = 0;
+        sim.callCounts.forEach((count, name) => {
+            if (name.startsWith('SetUI') && name !== 'SetUIWidgetName') n += count;
+        });
+        return n;
+    };
+    const widget = (name: string) => sim.ui.find(name);
+
+    const view = modlib.ui.bind<HudState>(
+        {
+            type: 'Container',
+            name: 'hud',
+            size: [300, 200],
+            playerId: asMod<mod.Player>(a),
+            children: [
+                { type: 'Text', name: 'score', size: [300, 30], textLabel: (s: HudState) => `score ${s.score}` },
+                { type: 'Text', name: 'streak', position: [0, 35], size: [300, 30], visible: (s: HudState) => s.streak > 1 },
+                {
+                    type: 'Container',
+                    name: 'rows',
+                    position: [0, 70],
+                    size: [300, 120],
+                    children: (s: HudState) =>
+                        s.rows.map((row, i) => ({
+                            type: 'Text',
+                            key: row,
+                            name: `row-${row}`,
+                            position: [0, i * 30],
+                            size: [300, 30],
+                            textLabel: row,
+                        })),
+                },
+            ],
+        },
+        { score: 0, streak: 0, rows: ['x', 'y'] }
+    );
+    check(widget('score')?.text === 'score 0' && widget('streak')?.visible === false, 'the view is built from its initial state');
+    check(widget('row-x') !== undefined && widget('row-y') !== undefined, 'state-driven children are created');
+
+    let before = setCalls();
+    view.update({ score: 0, streak: 0, rows: ['x', 'y'] });
+    await sim.runTicks(3);
+    check(setCalls() === before, 'an update that changes nothing sends nothing');
+
+    before = setCalls();
+    view.update({ score: 5, streak: 0, rows: ['x', 'y'] });
+    view.update({ score: 7, streak: 0, rows: ['x', 'y'] });
+    await sim.runTicks(3);
+    check(widget('score')?.text === 'score 7' && setCalls() === before + 1, 'updates within one flush interval cost one call');
+
+    const scoreWidget = widget('score');
+    const rowY = widget('row-y');
+    view.update({ score: 7, streak: 3, rows: ['y', 'z'] });
+    view.flush();
+    check(widget('streak')?.visible === true && widget('score') === scoreWidget, 'flush() applies changes to the same widgets');
+    check(widget('row-x') === undefined && widget('row-z')?.text === 'z', 'a dropped key is deleted and a new one created');
+    check(widget('row-y') === rowY && (rowY?.props.position as SimVector).y === 0, 'a kept key keeps its widget and moves');
+
+    sim.removePlayer(a);
+    check(widget('hud') === undefined && modlib.ui.count() === 0, 'the view is destroyed with its player');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
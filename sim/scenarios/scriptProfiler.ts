@@ -0,0 +1,89 @@
+// ScriptProfiler on a running match: mod.* calls are counted per section (inclusive and self), an
+// interval report is printed every reportEverySec, and the match report at OnGameModeEnding carries
+// the totals and the busiest interval of each section. disable() puts the real SDK back and keeps the
+// numbers. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/scriptProfiler.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`scriptProfiler: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+// The columns of a section's row in a report, by section name
+function row(report: string, name: string): string[] {
+    const line = report.split('\n').find((l) => l.trim().split(/\s+/)[1] === name) ?? '';
+    return line.trim().split(/\s+/);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const { profiler } = await import('../../copy-paste/ScriptProfiler.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    profiler.configure({ reportEverySec: 1 });
+
+    let innerCalls = 2;
+    modlib.events.on(
+        'OngoingGlobal',
+        () =>
+            profiler.section('outer', () => {
+                mod.AllPlayers();
+                profiler.section('inner', () => {
+                    for (let i = 0; i < innerCalls; i++) mod.AllPlayers();
+                });
+            }),
+        { module: 'Scenario' }
+    );
+
+    const realMod = mod;
+    profiler.section('outer', () => undefined);
+    check(!profiler.isEnabled() && profiler.report().indexOf('outer') < 0, 'nothing is counted before enable()');
+
+    sim.load(mode).startMatch();
+    profiler.enable();
+    check(profiler.isEnabled() && (mod as unknown) !== realMod, 'enable() swaps the global mod');
+
+    const a = asMod<mod.Player>(sim.addPlayer({ team: 1, name: 'A' }));
+    sim.addPlayer({ team: 2, name: 'B' });
+    check(mod.GetObjId(a) >= 0, 'calls through the counting proxy still reach the SDK');
+
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => lines.push(args.join(' '));
+    await sim.runTicks(30);
+    console.log = log;
+
+    const interval = lines.find((line) => line.startsWith('[Profiler] 30 ticks')) ?? '';
+    check(interval !== '', 'an interval report is printed after reportEverySec');
+    const outer = row(interval, 'outer');
+    const inner = row(interval, 'inner');
+    const runs = Number(outer[2]);
+    check(runs > 0 && Number(inner[2]) === runs, 'both sections report their runs');
+    check(Number(outer[3]) === 3 * runs && Number(outer[5]) === runs, 'outer calls include the nested section, self does not');
+    check(Number(inner[3]) === 2 * runs && inner[6] === 'AllPlayers', 'inner calls are listed by mod function');
+    check(profiler.report().indexOf('outer') < 0, 'the printed interval starts a new one');
+
+    innerCalls = 8;
+    await sim.runTicks(15);
+    lines.length = 0;
+    console.log = (...args: unknown[]) => lines.push(args.join(' '));
+    sim.endMatch();
+    console.log = log;
+
+    const matchAt = lines.findIndex((line) => line.startsWith('[Profiler] match: 45 ticks'));
+    check(matchAt > 0 && lines[0].startsWith('[Profiler] 15 ticks'), 'the match ends with the last interval, then the match report');
+    const total = row(lines[matchAt], 'inner');
+    const lateRuns = Number(total[2]) - runs;
+    check(lateRuns > 0 && Number(total[3]) === 2 * runs + 8 * lateRuns, 'the match report totals every interval');
+    check(Number(total[5]) === Number(((8 * lateRuns) / 15).toFixed(1)), 'peak/tick is the busiest interval');
+
+    profiler.disable();
+    check(!profiler.isEnabled() && mod === realMod, 'disable() puts the real SDK back');
+    check(profiler.section('outer', () => 7) === 7 && row(profiler.matchReport(), 'inner')[3] === total[3], 'numbers are kept');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,59 @@
+// modlib.store initial values the way the rule editor starts a match: every variable already holds
+// 0 / false, so non-zero defaults only show up if seedDefaults() and the join hook write them. Block
+// logic writing the same variables afterwards keeps its values. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/storeDefaults.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`storeDefaults: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+
+    const StartingScore = modlib.store.global('StartingScore', 200, { index: 0 });
+    const GameOngoing = modlib.store.global('GameOngoing', true, { index: 1 });
+    const TeamScore = modlib.store.team('TeamScore', 150, { index: 0 });
+    const Revives = modlib.store.player('Revives', 3, { index: 0 });
+    let notified = 0;
+    TeamScore.onChange(() => notified++);
+
+    // what the rule editor starts with: real values, not empty variables
+    const [team1, team2] = [asMod<mod.Team>(sim.team(1)), asMod<mod.Team>(sim.team(2))];
+    mod.SetVariable(mod.GlobalVariable(0), 0);
+    mod.SetVariable(mod.GlobalVariable(1), false);
+    mod.SetVariable(mod.ObjectVariable(team1, 0), 0);
+    mod.SetVariable(mod.ObjectVariable(team2, 0), 0);
+
+    const a = asMod<mod.Player>(sim.addPlayer({ team: 1, name: 'A' })); // in the match before the script starts
+    mod.SetVariable(mod.ObjectVariable(a, 0), 0);
+
+    let revivesOnJoin = -1;
+    modlib.events.on('OnGameModeStarted', () => modlib.store.seedDefaults([team1, team2]), { module: 'Scenario' });
+    modlib.events.on('OnPlayerJoinGame', (player) => (revivesOnJoin = Revives.get(player)), { module: 'Scenario' });
+    sim.load(mode).startMatch();
+
+    check(StartingScore.get() === 200 && GameOngoing.get() === true, 'global keys are seeded');
+    check(TeamScore.get(team1) === 150 && TeamScore.get(team2) === 150, 'team keys are seeded for the teams given');
+    check(Revives.get(a) === 3, 'a player already in the match is seeded');
+    check(notified === 0, 'seeding calls no listeners');
+
+    const b = asMod<mod.Player>(sim.addPlayer({ team: 2, name: 'B' }));
+    check(mod.GetVariable(mod.ObjectVariable(b, 0)) === 3, "a joining player's variable is written");
+    check(revivesOnJoin === 3, 'other OnPlayerJoinGame handlers already see the default');
+
+    // block logic taking over after seeding
+    mod.SetVariable(mod.GlobalVariable(0), 50);
+    mod.SetVariable(mod.ObjectVariable(team2, 0), 75);
+    await sim.runTicks(3);
+    check(StartingScore.get() === 50 && TeamScore.get(team2) === 75, 'values block logic sets are read, not overwritten');
+    check(TeamScore.update(team2, (score) => score - 5) === 70 && notified === 1, 'store writes start from them');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
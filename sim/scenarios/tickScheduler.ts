@@ -0,0 +1,53 @@
+// PerfThrottles' TickScheduler on a live match: periodic tasks get phase offsets that keep the 2 Hz and
+// 10 Hz tasks off each other's ticks, one-shots run once and can be cancelled, and a per-tick budget
+// defers (never drops) normal work while critical work always runs. Throws (non-zero exit) on a failed
+// check.
+//
+//   npx tsx sim/scenarios/tickScheduler.ts
+
+import { Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`tickScheduler: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const { scheduler, TickScheduler } = await import('../../copy-paste/PerfThrottles.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+    sim.addPlayer({ team: 1 });
+    sim.addPlayer({ team: 2 }); // the match goes Live, where the scheduler runs
+
+    const runs: { [task: string]: number[] } = { capture: [], ui: [], sfx: [], once: [], cancelled: [] };
+    const log = (task: string) => () => runs[task].push(sim.tickCount);
+    scheduler.every(2, log('capture'), { name: 'capture', cost: 3, priority: 'high' });
+    scheduler.every(10, log('ui'), { name: 'ui', cost: 2 });
+    scheduler.every(3, log('sfx'), { name: 'sfx', priority: 'low' });
+    const once = scheduler.after(1, log('once'));
+    scheduler.cancel(scheduler.after(1, log('cancelled')));
+
+    await sim.runTicks(60);
+    check(runs.capture.length === 4 && runs.ui.length === 20 && runs.sfx.length === 6, 'each task runs at its rate');
+    check(!runs.capture.some((tick) => runs.ui.includes(tick)), 'the 2 Hz and 10 Hz tasks never share a tick');
+    check(runs.once.length === 1 && !scheduler.isScheduled(once), 'a one-shot runs once and is then gone');
+    check(runs.cancelled.length === 0, 'a cancelled one-shot never runs');
+
+    const budgeted = new TickScheduler(2);
+    const counts = { critical: 0, normal: 0 };
+    budgeted.everyTicks(2, () => counts.critical++, { priority: 'critical', cost: 3, phase: 0 });
+    for (let i = 0; i < 3; i++) budgeted.everyTicks(4, () => counts.normal++, { phase: 0 });
+    let maxNormalCost = 0;
+    for (let i = 0; i < 40; i++) {
+        const before = counts.normal;
+        budgeted.tick();
+        maxNormalCost = Math.max(maxNormalCost, counts.normal - before);
+    }
+    check(counts.critical === 20, 'critical work runs on every one of its ticks, over budget or not');
+    check(maxNormalCost <= 2 && budgeted.getStats().deferredTotal > 0, 'normal work over the budget is deferred');
+    check(counts.normal >= 27, 'deferred work still runs (nothing is dropped)');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
@@ -0,0 +1,63 @@
+// modlib.timers and modlib.cooldowns on the live tick loop: one-shots and repeating timers land on
+// exact ticks, a player's timers are cancelled when they die unless keepOnDeath, and when they leave;
+// waitUntil resolves true as soon as its condition holds and false on timeout, and a per-player
+// cooldown blocks reuse for its full duration. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/timersCooldowns.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`timersCooldowns: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const { timers, cooldowns } = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const simA = sim.addPlayer({ team: 1, name: 'A' });
+    const b = sim.addPlayer({ team: 2, name: 'B' });
+    const a = asMod<mod.Player>(simA);
+    const start = timers.now();
+    const log: string[] = [];
+    const at = (what: string) => () => log.push(`${what}@${timers.now() - start}`);
+
+    timers.after(0.5, at('half'));
+    const every = timers.everyTicks(4, at('every'));
+    timers.afterTicks(2, at('diesFirst'), { player: a });
+    timers.afterTicks(20, at('keep'), { player: a, keepOnDeath: true });
+    timers.afterTicks(20, at('leaves'), { player: asMod<mod.Player>(b) });
+
+    let flag = false;
+    let met: boolean | undefined;
+    let timedOut: boolean | undefined;
+    timers.waitUntil(() => flag, { timeoutTicks: 30 }).then((ok) => (met = ok));
+    timers.waitUntil(() => false, { timeoutTicks: 10 }).then((ok) => (timedOut = ok));
+
+    sim.kill(simA);
+    await sim.runTicks(7);
+    flag = true;
+    await sim.runTicks(6);
+    timers.cancel(every);
+    sim.removePlayer(b);
+    await sim.runTicks(20);
+
+    check(log.includes('half@15'), 'after(0.5) runs 15 ticks later');
+    check(log.filter((e) => e.startsWith('every')).join() === 'every@4,every@8,every@12', 'everyTicks(4) repeats until cancelled');
+    check(!log.some((e) => e.startsWith('diesFirst')) && log.includes('keep@20'), 'death cancels timers unless keepOnDeath');
+    check(!log.some((e) => e.startsWith('leaves')), "leaving cancels the player's timers");
+    check(met === true && timedOut === false, 'waitUntil resolves true when met and false on timeout');
+    check(timers.count() === 0, 'nothing is left scheduled');
+
+    check(cooldowns.tryUse('dash', a, 1) && !cooldowns.tryUse('dash', a, 1), 'a cooldown blocks the second use');
+    await sim.runTicks(29);
+    check(!cooldowns.isReady('dash', a), 'it is still running a tick before it ends');
+    await sim.runTicks(1);
+    check(cooldowns.isReady('dash', a), 'and ready after its full second');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
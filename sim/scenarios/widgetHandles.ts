@@ -0,0 +1,69 @@
+// modlib.widgets with two players building the same HUD: each gets a handle in their own namespace,
+// the first keeps the plain SDK name and the second gets '<name>@p<ObjId>', updates through a handle
+// only touch that player's widgets, a team widget is namespaced by team, destroy() takes a whole
+// subtree, and leaving deletes only the leaving player's widgets. Throws (non-zero exit) on a failed check.
+//
+//   npx tsx sim/scenarios/widgetHandles.ts
+
+import { asMod, Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`widgetHandles: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+    sim.load(mode).startMatch();
+
+    const a = sim.addPlayer({ team: 1, name: 'A' });
+    const b = sim.addPlayer({ team: 2, name: 'B' });
+    const [playerA, playerB] = [asMod<mod.Player>(a), asMod<mod.Player>(b)];
+    const team1 = asMod<mod.Team>(sim.team(1));
+
+    const hud = (player: mod.Player) =>
+        modlib.widgets.create({
+            type: 'Container',
+            name: 'hud',
+            playerId: player,
+            children: [{ type: 'Text', name: 'score', textLabel: '0' }],
+        });
+    const hudA = hud(playerA);
+    const hudB = hud(playerB);
+    check(hudA.widgetName === 'hud' && hudB.widgetName === `hud@p${b.objId}`, 'the second player to use a name gets it namespaced');
+    check(hudB.child('score')?.widgetName === `score@p${b.objId}`, "children are in their parent's namespace");
+    check(modlib.widgets.get('hud', { player: playerB }) === hudB && modlib.widgets.get('hud') === undefined, 'get() looks a name up per namespace');
+    check(mod.GetUIWidgetName(mod.FindUIWidgetWithName('hud') as mod.UIWidget) === 'hud', 'FindUIWidgetWithName still finds the plain name');
+
+    hudB.child<'Text'>('score')?.setText('12');
+    check(sim.ui.find(`score@p${b.objId}`)?.text === '12' && sim.ui.find('score')?.text === '0', "a handle only updates its own player's widget");
+
+    const banner = modlib.widgets.create({
+        type: 'Container',
+        name: 'banner',
+        teamId: team1,
+        children: [{ type: 'Text', name: 'hud', textLabel: 'attack' }],
+    });
+    const teamHud = banner.child('hud');
+    check(modlib.widgets.get('banner', { team: team1 }) === banner && teamHud?.team === team1, 'team widgets and their children are namespaced by team');
+    check(teamHud?.widgetName === `hud@t${sim.team(1).objId}`, 'a name taken by a player widget is namespaced by team');
+
+    const count = modlib.widgets.count();
+    const scoreA = sim.ui.find('score');
+    hudA.destroy();
+    check(!hudA.isValid() && !hudA.children[0].isValid() && scoreA?.deleted === true, 'destroy() deletes the whole subtree');
+    check(modlib.widgets.count() === count - 2 && modlib.widgets.get('hud', { player: playerA }) === undefined, 'and forgets its handles');
+
+    const widgetsB = [sim.ui.find(`hud@p${b.objId}`), sim.ui.find(`score@p${b.objId}`)];
+    sim.removePlayer(b);
+    await sim.runTicks(1);
+    check(widgetsB.every((widget) => widget?.deleted) && !hudB.isValid(), "a leaving player's widgets are deleted");
+    check(banner.isValid() && modlib.widgets.count() === 2, 'team widgets stay');
+
+    check(modlib.widgets.destroyScope({ team: team1 }) === 1 && modlib.widgets.count() === 0, 'destroyScope() clears a team');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
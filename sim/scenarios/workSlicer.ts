@@ -0,0 +1,58 @@
+// modlib.WorkSlicer spreading per-player work over ticks with 64 players in the match: each tick
+// handles the same share, every player is visited at least once every 4 ticks, and players leaving
+// or joining mid-round neither make anyone skip a turn nor get missed. Throws (non-zero exit) on a
+// failed check.
+//
+//   npx tsx sim/scenarios/workSlicer.ts
+
+import { Simulator } from '../index';
+
+function check(ok: boolean, what: string) {
+    if (!ok) throw new Error(`workSlicer: ${what}`);
+    console.log(`ok - ${what}`);
+}
+
+async function main() {
+    const sim = new Simulator().install();
+    const modlib = await import('../../modlib/index.js');
+    const mode = await import('../../copy-paste/EventExports.js');
+
+    const slicer = new modlib.WorkSlicer<number>(4);
+    const lastVisit = new Map<number, number>();
+    const perTick: number[] = [];
+    let maxGap = 0;
+    modlib.events.on('OnPlayerJoinGame', (player) => slicer.add(mod.GetObjId(player)), { module: 'Scenario' });
+    modlib.events.on('OnPlayerLeaveGame', (objId) => slicer.remove(objId), { module: 'Scenario' });
+    modlib.events.on(
+        'OngoingGlobal',
+        () => {
+            perTick.push(
+                slicer.tick((objId) => {
+                    maxGap = Math.max(maxGap, sim.tickCount - (lastVisit.get(objId) ?? sim.tickCount));
+                    lastVisit.set(objId, sim.tickCount);
+                })
+            );
+        },
+        { module: 'Scenario' }
+    );
+    sim.load(mode).startMatch();
+
+    const players = [];
+    for (let i = 0; i < 64; i++) players.push(sim.addPlayer({ team: 1 + (i % 2) }));
+    await sim.runTicks(40);
+    check(perTick.slice(-8).every((n) => n === 16), 'each tick handles 16 of the 64 players');
+    check(lastVisit.size === 64 && maxGap === 4, 'every player is visited once every 4 ticks');
+
+    // players leave from the middle of the list, others join
+    for (const p of players.slice(20, 30)) sim.removePlayer(p);
+    for (let i = 0; i < 6; i++) players.push(sim.addPlayer({ team: 1 }));
+    await sim.runTicks(1);
+    const since = sim.tickCount;
+    await sim.runTicks(40);
+    const visitedSince = players.filter((p) => p.valid && (lastVisit.get(p.objId) ?? 0) > since).length;
+    check(slicer.count() === 60 && visitedSince === 60, 'leavers are dropped and joiners picked up');
+    check(maxGap <= 4, 'nobody skips a turn while the list changes');
+    check(sim.errorReports.length === 0, 'no error reports');
+}
+
+main();
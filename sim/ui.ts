@@ -0,0 +1,231 @@
+import { SimMessage, SimObject, SimPlayer, SimTeam, SimVector } from './entities';
+import { UIAnchor, UIBgFill, UIImageType } from './enums';
+
+export type SimWidgetKind = 'Root' | 'Container' | 'Text' | 'Image' | 'Button';
+
+export class SimWidget extends SimObject {
+    name: string;
+    parent: SimWidget | undefined;
+    children: SimWidget[] = [];
+    receiver: SimPlayer | SimTeam | undefined;
+    deleted = false;
+
+    // Every property the SDK can set on a widget, keyed by the suffix of its SetUI* function
+    // (`SetUITextLabel` -> `textLabel`, `SetUIWidgetVisible` -> `visible`, ...).
+    props: Record<string, unknown> = {};
+
+    // UIButtonEvent values enabled through mod.EnableUIButtonEvent
+    buttonEvents = new Set<number>();
+
+    constructor(objId: number, readonly widgetKind: SimWidgetKind, name: string, parent: SimWidget | undefined) {
+        super(objId, 'UIWidget');
+        this.name = name;
+        this.parent = parent;
+    }
+
+    get visible() {
+        return this.props.visible !== false;
+    }
+
+    get text() {
+        const label = this.props.textLabel;
+        return label === undefined ? undefined : String(label);
+    }
+
+    // Whether `player` can see this widget: restricted widgets (and their descendants) are
+    // only shown to the receiving player or team.
+    isVisibleTo(player: SimPlayer): boolean {
+        for (let w: SimWidget | undefined = this; w; w = w.parent) {
+            if (!w.visible) return false;
+            const r = w.receiver;
+            if (r instanceof SimPlayer && r.objId !== player.objId) return false;
+            if (r instanceof SimTeam && r.objId !== player.team.objId) return false;
+        }
+        return true;
+    }
+}
+
+// Positional parameters of the long AddUI* overloads, after (name, position, size, anchor, parent).
+const longFormParams: Record<Exclude<SimWidgetKind, 'Root'>, string[]> = {
+    Container: ['visible', 'padding', 'bgColor', 'bgAlpha', 'bgFill'],
+    Text: [
+        'visible',
+        'padding',
+        'bgColor',
+        'bgAlpha',
+        'bgFill',
+        'textLabel',
+        'textSize',
+        'textColor',
+        'textAlpha',
+        'textAnchor',
+    ],
+    Image: ['visible', 'padding', 'bgColor', 'bgAlpha', 'bgFill', 'imageType', 'imageColor', 'imageAlpha'],
+    Button: [
+        'visible',
+        'padding',
+        'bgColor',
+        'bgAlpha',
+        'bgFill',
+        'buttonEnabled',
+        'buttonColorBase',
+        'buttonAlphaBase',
+        'buttonColorDisabled',
+        'buttonAlphaDisabled',
+        'buttonColorPressed',
+        'buttonAlphaPressed',
+        'buttonColorHover',
+        'buttonAlphaHover',
+        'buttonColorFocused',
+        'buttonAlphaFocused',
+    ],
+};
+
+// Positional parameters of the short AddUI* overloads, after (name, position, size, anchor).
+const shortFormParams: Record<Exclude<SimWidgetKind, 'Root'>, string[]> = {
+    Container: [],
+    Text: ['textLabel'],
+    Image: ['imageType'],
+    Button: [],
+};
+
+const defaultProps: Record<string, unknown> = {
+    visible: true,
+    padding: 0,
+    bgAlpha: 1,
+    bgFill: UIBgFill.None,
+    textSize: 0,
+    textAlpha: 1,
+    textAnchor: UIAnchor.CenterLeft,
+    imageType: UIImageType.None,
+    imageAlpha: 1,
+    buttonEnabled: true,
+};
+
+// Maps SetUI* function names onto widget props.
+export const uiSetters: Record<string, string> = {
+    SetUIButtonAlphaBase: 'buttonAlphaBase',
+    SetUIButtonAlphaDisabled: 'buttonAlphaDisabled',
+    SetUIButtonAlphaFocused: 'buttonAlphaFocused',
+    SetUIButtonAlphaHover: 'buttonAlphaHover',
+    SetUIButtonAlphaPressed: 'buttonAlphaPressed',
+    SetUIButtonColorBase: 'buttonColorBase',
+    SetUIButtonColorDisabled: 'buttonColorDisabled',
+    SetUIButtonColorFocused: 'buttonColorFocused',
+    SetUIButtonColorHover: 'buttonColorHover',
+    SetUIButtonColorPressed: 'buttonColorPressed',
+    SetUIButtonEnabled: 'buttonEnabled',
+    SetUIImageAlpha: 'imageAlpha',
+    SetUIImageColor: 'imageColor',
+    SetUIImageType: 'imageType',
+    SetUITextAlpha: 'textAlpha',
+    SetUITextAnchor: 'textAnchor',
+    SetUITextColor: 'textColor',
+    SetUITextLabel: 'textLabel',
+    SetUITextSize: 'textSize',
+    SetUIWidgetAnchor: 'anchor',
+    SetUIWidgetBgAlpha: 'bgAlpha',
+    SetUIWidgetBgColor: 'bgColor',
+    SetUIWidgetBgFill: 'bgFill',
+    SetUIWidgetDepth: 'depth',
+    SetUIWidgetPadding: 'padding',
+    SetUIWidgetPosition: 'position',
+    SetUIWidgetSize: 'size',
+    SetUIWidgetVisible: 'visible',
+};
+
+export class SimUI {
+    readonly root: SimWidget;
+
+    // players (by ObjId) that currently have UI input mode enabled
+    readonly inputMode = new Set<number>();
+
+    private nextObjId: () => number;
+
+    constructor(nextObjId: () => number) {
+        this.nextObjId = nextObjId;
+        this.root = new SimWidget(nextObjId(), 'Root', '', undefined);
+    }
+
+    // Implements every AddUI* overload. The short and long forms are told apart by whether the
+    // fifth argument is a parent widget; trailing depth/receiver arguments are optional.
+    add(kind: Exclude<SimWidgetKind, 'Root'>, args: unknown[]): void {
+        const [name, position, size, anchor] = args as [string, SimVector, SimVector, number];
+        const isLong = args[4] instanceof SimWidget;
+        const paramNames = isLong ? longFormParams[kind] : shortFormParams[kind];
+        const firstParam = isLong ? 5 : 4;
+
+        const parent = isLong ? (args[4] as SimWidget) : this.root;
+        if (parent.deleted) throw new Error(`AddUI${kind}('${name}'): parent widget was deleted`);
+
+        const widget = new SimWidget(this.nextObjId(), kind, name, parent);
+        Object.assign(widget.props, defaultProps, { position, size, anchor });
+        paramNames.forEach((p, i) => (widget.props[p] = args[firstParam + i]));
+
+        for (let i = firstParam + paramNames.length; i < args.length; i++) {
+            const extra = args[i];
+            if (extra instanceof SimPlayer || extra instanceof SimTeam) widget.receiver = extra;
+            else if (extra !== undefined) widget.props.depth = extra;
+        }
+
+        parent.children.push(widget);
+    }
+
+    find(name: string, searchRoot: SimWidget = this.root): SimWidget | undefined {
+        for (const child of searchRoot.children) {
+            if (child.name === name) return child;
+            const found = this.find(name, child);
+            if (found) return found;
+        }
+        return undefined;
+    }
+
+    delete(widget: SimWidget | undefined): void {
+        if (!widget || widget.deleted) throw new Error('DeleteUIWidget: widget is not valid');
+        if (widget === this.root) throw new Error('DeleteUIWidget: cannot delete the UI root');
+        const markDeleted = (w: SimWidget) => {
+            w.deleted = true;
+            w.children.forEach(markDeleted);
+        };
+        markDeleted(widget);
+        const siblings = widget.parent!.children;
+        siblings.splice(siblings.indexOf(widget), 1);
+    }
+
+    deleteAll(): void {
+        [...this.root.children].forEach((w) => this.delete(w));
+    }
+
+    set(widget: SimWidget | undefined, prop: string, value: unknown): void {
+        if (!widget || widget.deleted) throw new Error(`SetUI ${prop}: widget is not valid`);
+        widget.props[prop] = value;
+    }
+
+    setParent(widget: SimWidget, parent: SimWidget): void {
+        if (widget.deleted || parent.deleted) throw new Error('SetUIWidgetParent: widget is not valid');
+        const siblings = widget.parent!.children;
+        siblings.splice(siblings.indexOf(widget), 1);
+        widget.parent = parent;
+        parent.children.push(widget);
+    }
+
+    // All live widgets, depth first.
+    all(from: SimWidget = this.root): SimWidget[] {
+        const out: SimWidget[] = [];
+        const walk = (w: SimWidget) => {
+            for (const c of w.children) {
+                out.push(c);
+                walk(c);
+            }
+        };
+        walk(from);
+        return out;
+    }
+
+    // The text labels a given player can currently see, in tree order. Handy for asserting HUD state.
+    visibleTextFor(player: SimPlayer): string[] {
+        return this.all()
+            .filter((w) => w.widgetKind === 'Text' && w.isVisibleTo(player))
+            .map((w) => (w.props.textLabel instanceof SimMessage ? w.props.textLabel.toString() : String(w.text ?? '')));
+    }
+}
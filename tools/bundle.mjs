@@ -0,0 +1,979 @@
+#!/usr/bin/env node
+//-----------------------------------------------------------------------------------------------//
+// Portal script bundler: turns a mode entry file plus selected copy-paste utilities into one
+// self-contained script, the only shape a Portal mode can be uploaded in.
+//
+//   node tools/bundle.mjs MyMode.ts --with copy-paste/EventExports.ts --with copy-paste/DamageSmoothing.ts -o dist/MyMode.ts
+//
+// - `modlib` imports are inlined, keeping only the declarations the script can reach
+//   (plus the top-level registrations of the modlib files that are kept).
+// - Constants declared identically in several files (TICK_RATE = 30) are emitted once.
+// - SDK event handlers exported by more than one file are merged into one export that calls
+//   each of them in file order.
+// - Anything else declared twice is an error, reported with both locations. Nothing is written
+//   while there are errors.
+//
+// No dependencies. Writing `.js` output additionally needs the `typescript` package to strip
+// the types; `.ts` output does not.
+//-----------------------------------------------------------------------------------------------//
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { basename, dirname, extname, join, relative, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const REPO_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+const DEFAULT_OPTIONS = {
+    entry: '',
+    with: [],
+    out: '',
+    modlibDir: join(REPO_ROOT, 'modlib'),
+    typesFile: join(REPO_ROOT, 'types', 'index.d.ts'),
+};
+
+const BLOCK_KEYWORDS = new Set(['function', 'class', 'interface', 'enum', 'namespace', 'module', 'global', 'if', 'for', 'while', 'try', 'switch']);
+const STATEMENT_KEYWORDS = new Set(['import', 'export', 'const', 'let', 'var', 'function', 'class', 'interface', 'type', 'enum', 'declare', 'namespace', 'abstract', 'async']);
+const MODIFIERS = new Set(['export', 'declare', 'async', 'abstract', 'const']); // `const` only before `enum`
+const REGEX_AFTER_KEYWORDS = new Set(['return', 'typeof', 'case', 'in', 'of', 'new', 'delete', 'void', 'throw', 'else', 'do']);
+
+//-----------------------------------------------------------------------------------------------//
+// Diagnostics
+//-----------------------------------------------------------------------------------------------//
+
+class Diagnostics {
+    constructor() {
+        this.list = [];
+    }
+
+    error(source, pos, message) {
+        this.list.push({ severity: 'error', source, pos, message });
+    }
+
+    warning(source, pos, message) {
+        this.list.push({ severity: 'warning', source, pos, message });
+    }
+
+    hasErrors() {
+        return this.list.some((d) => d.severity === 'error');
+    }
+
+    format() {
+        return this.list.map((d) => {
+            const where = d.source ? `${d.source.display}:${location(d.source, d.pos)}` : 'bundle';
+            return `${where} - ${d.severity}: ${d.message}`;
+        });
+    }
+}
+
+function location(source, pos) {
+    if (pos === undefined) return '1:1';
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < pos && i < source.text.length; i++) {
+        if (source.text.charCodeAt(i) === 10) {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    return `${line}:${pos - lineStart + 1}`;
+}
+
+function where(source, pos) {
+    return `${source.display}:${location(source, pos)}`;
+}
+
+//-----------------------------------------------------------------------------------------------//
+// Tokenizer: just enough TypeScript to find top-level statements and identifier references.
+// Comments are skipped; a template literal is one token whose `${}` expressions are tokenized
+// into `inner`.
+//-----------------------------------------------------------------------------------------------//
+
+function isIdentStart(c) {
+    return (c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z') || c === '_' || c === '$';
+}
+
+function isIdentPart(c) {
+    return isIdentStart(c) || (c >= '0' && c <= '9');
+}
+
+function regexAllowedAfter(prev) {
+    if (!prev) return true;
+    if (prev.type === 'ident') return REGEX_AFTER_KEYWORDS.has(prev.value);
+    if (prev.type !== 'punct') return false;
+    return prev.value !== ')' && prev.value !== ']' && prev.value !== '}';
+}
+
+function tokenize(source, diag) {
+    const text = source.text;
+    let i = 0;
+    let sawNewline = true;
+
+    function read(untilCloseBrace) {
+        const tokens = [];
+        let depth = 0;
+
+        while (i < text.length) {
+            const c = text[i];
+
+            if (c === '\n') {
+                sawNewline = true;
+                i++;
+                continue;
+            }
+            if (c === ' ' || c === '\t' || c === '\r') {
+                i++;
+                continue;
+            }
+            if (c === '/' && text[i + 1] === '/') {
+                while (i < text.length && text[i] !== '\n') i++;
+                continue;
+            }
+            if (c === '/' && text[i + 1] === '*') {
+                const close = text.indexOf('*/', i + 2);
+                if (close < 0) {
+                    diag.error(source, i, 'unterminated comment');
+                    i = text.length;
+                    break;
+                }
+                if (text.slice(i, close).includes('\n')) sawNewline = true;
+                i = close + 2;
+                continue;
+            }
+
+            const start = i;
+            const nl = sawNewline;
+            sawNewline = false;
+            const push = (type, value, extra) => tokens.push({ type, value, start, end: i, nl, ...extra });
+
+            if (isIdentStart(c)) {
+                while (i < text.length && isIdentPart(text[i])) i++;
+                push('ident', text.slice(start, i));
+            } else if ((c >= '0' && c <= '9') || (c === '.' && text[i + 1] >= '0' && text[i + 1] <= '9')) {
+                while (i < text.length && (isIdentPart(text[i]) || text[i] === '.')) i++;
+                push('number', text.slice(start, i));
+            } else if (c === '"' || c === "'") {
+                i++;
+                while (i < text.length && text[i] !== c) {
+                    if (text[i] === '\\') i++;
+                    else if (text[i] === '\n') break;
+                    i++;
+                }
+                if (text[i] !== c) {
+                    diag.error(source, start, 'unterminated string literal');
+                    break;
+                }
+                i++;
+                push('string', text.slice(start + 1, i - 1));
+            } else if (c === '`') {
+                i++;
+                const inner = [];
+                while (i < text.length && text[i] !== '`') {
+                    if (text[i] === '\\') {
+                        i += 2;
+                    } else if (text[i] === '$' && text[i + 1] === '{') {
+                        i += 2;
+                        inner.push(...read(true));
+                        i++; // the closing brace
+                    } else {
+                        i++;
+                    }
+                }
+                if (i >= text.length) {
+                    diag.error(source, start, 'unterminated template literal');
+                    break;
+                }
+                i++;
+                push('template', text.slice(start, i), { inner });
+            } else if (c === '/' && regexAllowedAfter(tokens[tokens.length - 1])) {
+                i++;
+                let inClass = false;
+                while (i < text.length && (inClass || text[i] !== '/') && text[i] !== '\n') {
+                    if (text[i] === '\\') i++;
+                    else if (text[i] === '[') inClass = true;
+                    else if (text[i] === ']') inClass = false;
+                    i++;
+                }
+                i++;
+                while (i < text.length && isIdentPart(text[i])) i++;
+                push('regex', text.slice(start, i));
+            } else {
+                if (untilCloseBrace && c === '}' && depth === 0) return tokens;
+                if (c === '{') depth++;
+                else if (c === '}') depth--;
+
+                let value = c;
+                if (text.startsWith('...', i)) value = '...';
+                else if (text.startsWith('=>', i)) value = '=>';
+                else if (c === '?' && text[i + 1] === '.' && !(text[i + 2] >= '0' && text[i + 2] <= '9')) value = '?.';
+                i += value.length;
+                push('punct', value);
+            }
+        }
+
+        if (untilCloseBrace) diag.error(source, i, 'unterminated template expression');
+        return tokens;
+    }
+
+    return read(false);
+}
+
+// Tokens in order, with template expressions flattened in. fn(token, previous, list, index)
+function eachToken(tokens, from, to, fn) {
+    for (let i = from; i < to; i++) {
+        const t = tokens[i];
+        fn(t, tokens[i - 1], tokens, i);
+        if (t.type === 'template') eachToken(t.inner, 0, t.inner.length, fn);
+    }
+}
+
+function isMemberName(prev) {
+    return prev !== undefined && prev.type === 'punct' && (prev.value === '.' || prev.value === '?.');
+}
+
+//-----------------------------------------------------------------------------------------------//
+// Top-level statements
+//-----------------------------------------------------------------------------------------------//
+
+function splitStatements(source, tokens, diag) {
+    const statements = [];
+    let first = 0;
+    let depth = 0;
+
+    const close = (last) => {
+        statements.push(analyzeStatement(source, tokens, first, last + 1, diag));
+        first = last + 1;
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const t = tokens[i];
+        if (t.type === 'punct') {
+            if (t.value === '(' || t.value === '[' || t.value === '{') depth++;
+            else if (t.value === ')' || t.value === ']' || t.value === '}') depth--;
+        }
+        if (depth < 0) {
+            diag.error(source, t.start, `unbalanced '${t.value}'`);
+            return statements;
+        }
+        if (depth > 0) continue;
+
+        const next = tokens[i + 1];
+        const endsLine = next === undefined || next.nl;
+        if (t.type === 'punct' && t.value === ';') {
+            close(i);
+        } else if (t.type === 'punct' && t.value === '}' && endsLine && startsBlockStatement(tokens, first)) {
+            close(i);
+        } else if (endsLine && (next === undefined || (next.type === 'ident' && STATEMENT_KEYWORDS.has(next.value)))) {
+            // statement without a semicolon (ASI)
+            if (t.type !== 'punct' || t.value === ')' || t.value === ']' || t.value === '}') close(i);
+        }
+    }
+
+    if (depth > 0) diag.error(source, source.text.length, 'unexpected end of file (unclosed bracket)');
+    else if (first < tokens.length) close(tokens.length - 1);
+    return statements;
+}
+
+function startsBlockStatement(tokens, first) {
+    let i = first;
+    while (i < tokens.length && tokens[i].type === 'ident' && MODIFIERS.has(tokens[i].value)) i++;
+    const t = tokens[i];
+    if (!t) return false;
+    if (t.type === 'punct') return t.value === '{';
+    return t.type === 'ident' && BLOCK_KEYWORDS.has(t.value);
+}
+
+function analyzeStatement(source, tokens, first, end, diag) {
+    const stmt = {
+        source,
+        tokens,
+        first,
+        end,
+        start: tokens[first].start,
+        stop: tokens[end - 1].end,
+        kind: 'effect',
+        exported: false,
+        exportToken: undefined,
+        declKind: '',
+        name: '',
+        nameToken: undefined,
+        importFrom: '',
+        namespaceAlias: '',
+        namedImports: [],
+    };
+
+    let i = first;
+    const at = (k) => tokens[k];
+    const is = (k, value) => tokens[k] !== undefined && tokens[k].value === value && tokens[k].type !== 'string';
+
+    if (is(i, 'import') && !is(i + 1, '(')) {
+        stmt.kind = 'import';
+        parseImport(stmt, i + 1, diag);
+        return stmt;
+    }
+
+    if (is(i, 'export')) {
+        stmt.exported = true;
+        stmt.exportToken = at(i);
+        i++;
+        if (is(i, 'default') || is(i, '=')) {
+            diag.error(source, at(i).start, `'export ${at(i).value}' is not supported in a Portal script`);
+            return stmt;
+        }
+        if (is(i, '*') || is(i, '{') || is(i, 'type') && is(i + 1, '{')) {
+            stmt.kind = 'reexport';
+            const fromIdx = findFrom(tokens, i, end);
+            if (is(i, '*') && fromIdx >= 0 && !is(i + 1, 'as')) {
+                stmt.importFrom = at(fromIdx + 1).value;
+            } else {
+                diag.error(source, at(i).start, "only 'export * from' re-exports are supported");
+            }
+            return stmt;
+        }
+    }
+
+    while (is(i, 'declare') || is(i, 'async') || is(i, 'abstract')) i++;
+    if (is(i, 'const') && is(i + 1, 'enum')) i++;
+
+    const keyword = at(i);
+    if (!keyword || keyword.type !== 'ident') return stmt;
+
+    let nameIdx = -1;
+    switch (keyword.value) {
+        case 'function':
+            nameIdx = is(i + 1, '*') ? i + 2 : i + 1;
+            break;
+        case 'class':
+        case 'interface':
+        case 'enum':
+        case 'namespace':
+        case 'module':
+        case 'const':
+        case 'let':
+        case 'var':
+            nameIdx = i + 1;
+            break;
+        case 'type':
+            if (at(i + 1) && at(i + 1).type === 'ident') nameIdx = i + 1;
+            break;
+    }
+    if (nameIdx < 0) return stmt;
+
+    const nameToken = at(nameIdx);
+    if (!nameToken || nameToken.type !== 'ident') {
+        diag.error(source, keyword.start, `top-level '${keyword.value}' without a plain name (destructuring is not supported)`);
+        return stmt;
+    }
+
+    stmt.kind = 'decl';
+    stmt.declKind = keyword.value;
+    stmt.name = nameToken.value;
+    stmt.nameToken = nameToken;
+    stmt.nameIdx = nameIdx;
+    return stmt;
+}
+
+function findFrom(tokens, i, end) {
+    for (let k = i; k < end - 1; k++) {
+        if (tokens[k].type === 'ident' && tokens[k].value === 'from' && tokens[k + 1].type === 'string') return k;
+    }
+    return -1;
+}
+
+function parseImport(stmt, i, diag) {
+    const { tokens, end, source } = stmt;
+    const t = (k) => tokens[k];
+    if (t(i) && t(i).type === 'ident' && t(i).value === 'type') i++;
+
+    if (t(i) && t(i).type === 'string') {
+        stmt.importFrom = t(i).value; // side-effect import
+        return;
+    }
+
+    const fromIdx = findFrom(tokens, i, end);
+    if (fromIdx < 0) {
+        diag.error(source, stmt.start, 'unrecognized import');
+        return;
+    }
+    stmt.importFrom = t(fromIdx + 1).value;
+
+    if (t(i).value === '*' && t(i + 1).value === 'as' && t(i + 2).type === 'ident' && i + 3 === fromIdx) {
+        stmt.namespaceAlias = t(i + 2).value;
+        return;
+    }
+    if (t(i).value !== '{') {
+        diag.error(source, t(i).start, "only `import * as x from` and `import { a, b as c } from` are supported");
+        return;
+    }
+
+    let k = i + 1;
+    while (k < fromIdx && t(k).value !== '}') {
+        if (t(k).value === 'type' && t(k + 1).type === 'ident' && t(k + 1).value !== 'as') k++;
+        const imported = t(k);
+        let local = imported;
+        if (t(k + 1).value === 'as') {
+            local = t(k + 2);
+            k += 2;
+        }
+        stmt.namedImports.push({ imported: imported.value, local: local.value, token: imported });
+        k++;
+        if (t(k).value === ',') k++;
+    }
+}
+
+//-----------------------------------------------------------------------------------------------//
+// Sources
+//-----------------------------------------------------------------------------------------------//
+
+function loadSource(path, role, diag) {
+    const full = resolve(path);
+    if (!existsSync(full)) {
+        diag.error(undefined, undefined, `file not found: ${path}`);
+        return undefined;
+    }
+    const source = { path: full, display: relative(process.cwd(), full) || full, role, text: readFileSync(full, 'utf8') };
+    source.tokens = tokenize(source, diag);
+    source.statements = splitStatements(source, source.tokens, diag);
+    return source;
+}
+
+function resolveRelative(fromSource, spec) {
+    const base = resolve(dirname(fromSource.path), spec);
+    for (const candidate of [base, base + '.ts', join(base, 'index.ts')]) {
+        if (existsSync(candidate) && extname(candidate) === '.ts') return candidate;
+    }
+    return undefined;
+}
+
+function readEventHandlerNames(typesFile) {
+    if (!existsSync(typesFile)) return undefined;
+    const text = readFileSync(typesFile, 'utf8');
+    const start = text.indexOf('namespace EventHandlerSignatures');
+    if (start < 0) return undefined;
+    const names = new Set();
+    const re = /export function (\w+)\(/g;
+    re.lastIndex = start;
+    const close = text.indexOf('\n    }', start);
+    let m;
+    while ((m = re.exec(text)) !== null && m.index < close) names.add(m[1]);
+    return names;
+}
+
+//-----------------------------------------------------------------------------------------------//
+// modlib: export map, reachability
+//-----------------------------------------------------------------------------------------------//
+
+class ModlibGraph {
+    constructor(dir, diag) {
+        this.dir = resolve(dir);
+        this.diag = diag;
+        this.files = new Map(); // path -> source
+        this.order = []; // dependencies first
+        this.exportsCache = new Map();
+        this.kept = new Set(); // statements
+
+        const index = join(this.dir, 'index.ts');
+        if (!existsSync(index)) {
+            diag.error(undefined, undefined, `modlib not found at ${relative(process.cwd(), this.dir) || this.dir} (use --modlib <dir>)`);
+            return;
+        }
+        this.index = this.load(index);
+    }
+
+    load(path) {
+        const existing = this.files.get(path);
+        if (existing) return existing;
+
+        const source = loadSource(path, 'modlib', this.diag);
+        if (!source) return undefined;
+        this.files.set(path, source);
+
+        source.decls = new Map(); // name -> statements
+        source.imports = new Map(); // local name -> { source, name }
+        source.deps = [];
+        for (const stmt of source.statements) {
+            if (stmt.kind === 'decl') {
+                if (!source.decls.has(stmt.name)) source.decls.set(stmt.name, []);
+                source.decls.get(stmt.name).push(stmt);
+            } else if (stmt.kind === 'import' || stmt.kind === 'reexport') {
+                const target = resolveRelative(source, stmt.importFrom);
+                const dep = target && this.load(target);
+                if (!dep) {
+                    this.diag.error(source, stmt.start, `cannot resolve '${stmt.importFrom}' inside modlib`);
+                    continue;
+                }
+                source.deps.push(dep);
+                if (stmt.kind === 'reexport') stmt.target = dep;
+                for (const imp of stmt.namedImports) source.imports.set(imp.local, { source: dep, name: imp.imported });
+                if (stmt.namespaceAlias) this.diag.error(source, stmt.start, 'namespace imports are not supported inside modlib');
+            }
+        }
+        this.order.push(source);
+        return source;
+    }
+
+    // name -> { source, statements } for everything `import * as modlib from "modlib"` exposes
+    exportsOf(source) {
+        const cached = this.exportsCache.get(source);
+        if (cached) return cached;
+
+        const map = new Map();
+        this.exportsCache.set(source, map);
+        for (const stmt of source.statements) {
+            if (stmt.kind === 'decl' && stmt.exported) map.set(stmt.name, { source, name: stmt.name });
+            if (stmt.kind === 'reexport' && stmt.target) {
+                for (const [name, target] of this.exportsOf(stmt.target)) if (!map.has(name)) map.set(name, target);
+            }
+        }
+        return map;
+    }
+
+    lookupExport(name) {
+        return this.index ? this.exportsOf(this.index).get(name) : undefined;
+    }
+
+    // Marks a declaration and everything it references; files that get any declaration kept
+    // also keep their top-level registrations (events.on(...) and the like).
+    keep(source, name) {
+        const statements = source.decls.get(name);
+        if (!statements) {
+            const imported = source.imports.get(name);
+            if (imported) this.keep(imported.source, imported.name);
+            return;
+        }
+        if (this.kept.has(statements[0])) return;
+
+        const firstKept = !source.statements.some((s) => this.kept.has(s));
+        for (const stmt of statements) this.kept.add(stmt);
+        for (const stmt of statements) this.keepReferences(stmt);
+
+        if (firstKept) {
+            for (const stmt of source.statements) {
+                if (stmt.kind === 'effect' && !this.kept.has(stmt)) {
+                    this.kept.add(stmt);
+                    this.keepReferences(stmt);
+                }
+            }
+        }
+    }
+
+    keepReferences(stmt) {
+        const source = stmt.source;
+        eachToken(stmt.tokens, stmt.first, stmt.end, (t, prev) => {
+            if (t.type !== 'ident' || isMemberName(prev) || t === stmt.nameToken) return;
+            if (source.decls.has(t.value) || source.imports.has(t.value)) this.keep(source, t.value);
+        });
+    }
+
+    keptStatements() {
+        const result = [];
+        for (const source of this.order) {
+            for (const stmt of source.statements) if (this.kept.has(stmt)) result.push(stmt);
+        }
+        return result;
+    }
+
+    countDecls() {
+        let total = 0;
+        let kept = 0;
+        for (const source of this.order) {
+            for (const stmt of source.statements) {
+                if (stmt.kind !== 'decl') continue;
+                total++;
+                if (this.kept.has(stmt)) kept++;
+            }
+        }
+        return { kept, total };
+    }
+}
+
+//-----------------------------------------------------------------------------------------------//
+// Bundling
+//-----------------------------------------------------------------------------------------------//
+
+function sourceStem(source, used) {
+    let stem = basename(source.path, extname(source.path)).replace(/[^A-Za-z0-9_$]/g, '_');
+    if (/^[0-9]/.test(stem)) stem = '_' + stem;
+    let unique = stem;
+    for (let n = 2; used.has(unique); n++) unique = stem + n;
+    used.add(unique);
+    return unique;
+}
+
+function declarationKey(stmt) {
+    // everything after the name, comments and formatting ignored
+    const parts = [stmt.declKind];
+    eachToken(stmt.tokens, stmt.nameIdx + 1, stmt.end, (t) => {
+        if (!(t.type === 'punct' && t.value === ';')) parts.push(t.type === 'string' ? JSON.stringify(t.value) : t.value);
+    });
+    return parts.join(' ');
+}
+
+// Extent of a statement including its doc comment / banner above and a trailing same-line comment.
+function statementExtent(stmt, previous) {
+    const text = stmt.source.text;
+    let from = previous ? lineEndAfter(text, previous.stop) : 0;
+    if (text[from] === '\n') from++;
+    return { from, to: lineEndAfter(text, stmt.stop) };
+}
+
+function lineEndAfter(text, pos) {
+    let i = pos;
+    while (i < text.length && (text[i] === ' ' || text[i] === '\t' || text[i] === '\r')) i++;
+    if (text.startsWith('//', i)) while (i < text.length && text[i] !== '\n') i++;
+    return text[i] === '\n' || i >= text.length ? i : pos;
+}
+
+function applyEdits(text, from, to, edits) {
+    const inRange = edits.filter((e) => e.start >= from && e.end <= to).sort((a, b) => b.start - a.start);
+    let out = text.slice(from, to);
+    for (const e of inRange) out = out.slice(0, e.start - from) + e.text + out.slice(e.end - from);
+    return out;
+}
+
+function functionParams(stmt) {
+    const { tokens } = stmt;
+    let i = stmt.nameIdx + 1;
+    if (tokens[i] && tokens[i].value === '<') {
+        let angle = 0;
+        for (; i < stmt.end; i++) {
+            if (tokens[i].value === '<') angle++;
+            else if (tokens[i].value === '>' && --angle === 0) break;
+        }
+        i++;
+    }
+    if (!tokens[i] || tokens[i].value !== '(') return [];
+
+    const params = [];
+    let depth = 0;
+    let paramStart = i + 1;
+    for (let k = i; k < stmt.end; k++) {
+        const v = tokens[k].type === 'punct' ? tokens[k].value : '';
+        if (v === '(' || v === '[' || v === '{' || v === '<') depth++;
+        else if (v === ')' || v === ']' || v === '}' || v === '>') depth--;
+        if ((v === ',' && depth === 1) || depth === 0) {
+            if (k > paramStart) {
+                const nameTok = tokens[paramStart].value === '...' ? tokens[paramStart + 1] : tokens[paramStart];
+                params.push({
+                    name: nameTok.value,
+                    rest: tokens[paramStart].value === '...',
+                    text: stmt.source.text.slice(tokens[paramStart].start, tokens[k - 1].end),
+                });
+            }
+            paramStart = k + 1;
+            if (depth === 0) break;
+        }
+    }
+    return params;
+}
+
+function renderMergedHandler(name, defs) {
+    let widest = defs[0];
+    for (const def of defs) if (def.params.length > widest.params.length) widest = def;
+
+    const signature = widest.params.map((p) => p.text).join(', ');
+    let head = `export function ${name}(${signature}): void {`;
+    if (head.length > 100) head = `export function ${name}(\n${widest.params.map((p) => '  ' + p.text).join(',\n')}\n): void {`;
+    const lines = [head];
+    for (const def of defs) {
+        const args = widest.params.slice(0, def.params.length).map((p) => (p.rest ? '...' + p.name : p.name));
+        lines.push(`  ${def.localName}(${args.join(', ')});`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+}
+
+function banner(title) {
+    const rule = '='.repeat(97);
+    return `/* ${rule}\n   ${title}\n${rule} */`;
+}
+
+export function bundle(options) {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const diag = new Diagnostics();
+    const handlerNames = readEventHandlerNames(opts.typesFile);
+    const isHandlerName = (name) => (handlerNames ? handlerNames.has(name) : /^(On|Ongoing)[A-Z]/.test(name));
+    if (!handlerNames) diag.warning(undefined, undefined, `no EventHandlerSignatures in ${opts.typesFile}; treating On*/Ongoing* exports as event handlers`);
+
+    // user sources: utilities in the given order, files they import, then the entry
+    const userSources = [];
+    const byPath = new Map();
+    const addUser = (path, role) => {
+        const full = resolve(path);
+        if (byPath.has(full)) return byPath.get(full);
+        const source = loadSource(full, role, diag);
+        if (!source) return undefined;
+        byPath.set(full, source);
+        for (const stmt of source.statements) {
+            if (stmt.kind !== 'import' || !stmt.importFrom.startsWith('.')) continue;
+            const target = resolveRelative(source, stmt.importFrom);
+            if (!target) diag.error(source, stmt.start, `cannot resolve '${stmt.importFrom}'`);
+            else if (stmt.namespaceAlias || stmt.namedImports.some((imp) => imp.local !== imp.imported)) {
+                diag.error(source, stmt.start, `'${stmt.importFrom}' is flattened into the same script; import its names without renaming`);
+            } else addUser(target, 'import');
+        }
+        userSources.push(source);
+        return source;
+    };
+    for (const path of opts.with) addUser(path, 'with');
+    const entry = addUser(opts.entry, 'entry');
+    if (!entry) return { code: '', diagnostics: diag };
+
+    const modlib = new ModlibGraph(opts.modlibDir, diag);
+    const edits = new Map(userSources.map((s) => [s, []]));
+    const dropped = new Set();
+
+    // imports -> rewrites, and roots for modlib
+    for (const source of userSources) {
+        const sourceEdits = edits.get(source);
+        const namespaces = new Set();
+        const renames = new Map();
+
+        for (const stmt of source.statements) {
+            if (stmt.kind === 'reexport') diag.error(source, stmt.start, 're-exports are not supported outside modlib');
+            if (stmt.kind !== 'import') continue;
+            dropped.add(stmt);
+            if (stmt.importFrom.startsWith('.')) continue;
+            if (stmt.importFrom !== 'modlib') {
+                diag.error(source, stmt.start, `cannot inline '${stmt.importFrom}': a Portal script can only use the SDK and modlib`);
+                continue;
+            }
+            if (stmt.namespaceAlias) namespaces.add(stmt.namespaceAlias);
+            for (const imp of stmt.namedImports) {
+                const target = modlib.lookupExport(imp.imported);
+                if (!target) diag.error(source, imp.token.start, `modlib has no export '${imp.imported}'`);
+                else {
+                    modlib.keep(target.source, target.name);
+                    if (imp.local !== imp.imported) renames.set(imp.local, imp.imported);
+                }
+            }
+        }
+
+        eachToken(source.tokens, 0, source.tokens.length, (t, prev, list, i) => {
+            if (t.type !== 'ident' || isMemberName(prev)) return;
+            if (namespaces.has(t.value)) {
+                const dot = list[i + 1];
+                const member = dot && dot.type === 'punct' && dot.value === '.' ? list[i + 2] : undefined;
+                if (!member || member.type !== 'ident') {
+                    if (!isImportAlias(source, t)) diag.error(source, t.start, `'${t.value}' can only be used as '${t.value}.<name>' so it can be inlined`);
+                    return;
+                }
+                const target = modlib.lookupExport(member.value);
+                if (!target) {
+                    diag.error(source, member.start, `modlib has no export '${member.value}'`);
+                    return;
+                }
+                modlib.keep(target.source, target.name);
+                sourceEdits.push({ start: t.start, end: member.end, text: target.name });
+            } else if (renames.has(t.value) && !isImportAlias(source, t)) {
+                sourceEdits.push({ start: t.start, end: t.end, text: renames.get(t.value) });
+            }
+        });
+    }
+
+    // one flat scope: collect every top-level name
+    const modlibStatements = modlib.keptStatements();
+    const declared = new Map(); // name -> statements, emission order
+    const addDecl = (stmt) => {
+        if (stmt.kind !== 'decl') return;
+        if (!declared.has(stmt.name)) declared.set(stmt.name, []);
+        declared.get(stmt.name).push(stmt);
+    };
+    modlibStatements.forEach(addDecl);
+    for (const source of userSources) source.statements.forEach(addDecl);
+
+    const deduped = [];
+    const merged = [];
+    const stems = new Set();
+    const stemOf = new Map(userSources.map((s) => [s, sourceStem(s, stems)]));
+
+    for (const [name, statements] of declared) {
+        const bySource = [];
+        for (const stmt of statements) if (!bySource.includes(stmt.source)) bySource.push(stmt.source);
+        if (bySource.length < 2) continue;
+
+        const firsts = bySource.map((source) => statements.find((s) => s.source === source));
+
+        const handlers = firsts.filter((s) => s.declKind === 'function' && s.exported && s.source.role !== 'modlib' && isHandlerName(name));
+        if (handlers.length === firsts.length) {
+            const defs = [];
+            for (const stmt of handlers) {
+                const localName = `${name}_${stemOf.get(stmt.source)}`;
+                const sourceEdits = edits.get(stmt.source);
+                for (const s of statements.filter((x) => x.source === stmt.source)) {
+                    sourceEdits.push({ start: s.exportToken.start, end: s.tokens[s.first + 1].start, text: '' });
+                    sourceEdits.push({ start: s.nameToken.start, end: s.nameToken.end, text: localName });
+                }
+                defs.push({ localName, params: functionParams(stmt) });
+            }
+            merged.push({ name, defs, sources: handlers.map((s) => s.source) });
+            continue;
+        }
+
+        const constants = firsts.every((s) => s.declKind === 'const' && statements.filter((x) => x.source === s.source).length === 1);
+        if (constants && firsts.every((s) => declarationKey(s) === declarationKey(firsts[0]))) {
+            for (const stmt of firsts.slice(1)) dropped.add(stmt);
+            deduped.push({ name, count: firsts.length });
+            continue;
+        }
+
+        const keep = firsts[0];
+        for (const stmt of firsts.slice(1)) {
+            let message = `'${name}' is already declared at ${where(keep.source, keep.nameToken.start)}`;
+            if (constants) message += ' with a different value';
+            else if (isHandlerName(name) && stmt.declKind === 'function') {
+                message += '; event handlers are only merged when every file exports them (or register them with modlib.events instead)';
+            } else if (keep.source.role === 'modlib') message += ' (inlined from modlib); rename yours';
+            diag.error(stmt.source, stmt.nameToken.start, message);
+        }
+    }
+
+    const keptEvents = modlibStatements.some((s) => s.kind === 'decl' && s.name === 'events' && s.source.role === 'modlib');
+    const exportsHandlers = userSources.some((source) => source.statements.some((s) => s.kind === 'decl' && s.exported && isHandlerName(s.name)));
+    if (keptEvents && !exportsHandlers) {
+        diag.warning(entry, undefined, 'handlers are registered with modlib.events but nothing exports the SDK events; add copy-paste/EventExports.ts');
+    }
+
+    if (diag.hasErrors()) return { code: '', diagnostics: diag };
+
+    // output
+    const out = [];
+    const decls = modlib.countDecls();
+    const modlibFiles = modlib.order.filter((s) => modlibStatements.some((k) => k.source === s));
+    out.push(
+        [
+            '/*',
+            `  Generated by tools/bundle.mjs from ${entry.display}. Edit the sources and re-bundle instead of this file.`,
+            userSources.length > 1 ? `  Includes: ${userSources.filter((s) => s !== entry).map((s) => s.display).join(', ')}` : '',
+            `  modlib: ${decls.kept} of ${decls.total} declarations inlined`,
+            deduped.length > 0 ? `  Shared constants emitted once: ${deduped.map((d) => d.name).join(', ')}` : '',
+            merged.length > 0 ? `  Merged event handlers: ${merged.map((m) => m.name).join(', ')}` : '',
+            '*/',
+        ]
+            .filter((line) => line !== '')
+            .join('\n')
+    );
+
+    for (const source of modlibFiles) {
+        const parts = [];
+        let previous;
+        for (const stmt of source.statements) {
+            if (modlib.kept.has(stmt)) {
+                const { from, to } = statementExtent(stmt, previous);
+                const stripExport = stmt.exportToken ? [{ start: stmt.exportToken.start, end: stmt.tokens[stmt.first + 1].start, text: '' }] : [];
+                parts.push(applyEdits(source.text, from, to, stripExport).replace(/^\n+/, '\n')); // keep one blank line
+            }
+            previous = stmt;
+        }
+        out.push(banner(`modlib/${relative(modlib.dir, source.path).replace(/\\/g, '/')} (inlined)`) + '\n\n' + parts.join('\n'));
+    }
+
+    for (const source of userSources) {
+        const sourceEdits = edits.get(source);
+        for (const stmt of source.statements) {
+            if (!dropped.has(stmt)) continue;
+            const { to } = statementExtent(stmt, undefined);
+            sourceEdits.push({ start: stmt.start, end: to, text: stmt.kind === 'import' ? '' : `// ${stmt.name}: declared above` });
+        }
+        out.push(banner(source.display) + '\n\n' + applyEdits(source.text, 0, source.text.length, sourceEdits).trim());
+    }
+
+    if (merged.length > 0) {
+        out.push(banner('MERGED EVENT HANDLERS') + '\n\n' + merged.map((m) => renderMergedHandler(m.name, m.defs)).join('\n\n'));
+    }
+
+    const code = out.join('\n\n').replace(/\n{3,}/g, '\n\n') + '\n';
+    return { code, diagnostics: diag, deduped, merged, modlib: { ...decls, files: modlibFiles.length } };
+}
+
+function isImportAlias(source, token) {
+    return source.statements.some((s) => s.kind === 'import' && token.start >= s.start && token.end <= s.stop);
+}
+
+function transpileToJs(code, diag) {
+    for (const base of [join(process.cwd(), 'noop.js'), fileURLToPath(import.meta.url)]) {
+        try {
+            const ts = createRequire(base)('typescript');
+            return ts.transpileModule(code, {
+                compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.ES2020, removeComments: false },
+            }).outputText;
+        } catch (e) {
+            if (!(e && e.code === 'MODULE_NOT_FOUND')) throw e;
+        }
+    }
+    diag.error(undefined, undefined, ".js output needs the 'typescript' package (npm install typescript), or write .ts instead");
+    return '';
+}
+
+//-----------------------------------------------------------------------------------------------//
+// CLI
+//-----------------------------------------------------------------------------------------------//
+
+const USAGE = `usage: node tools/bundle.mjs <entry.ts> [--with <file.ts>]... [-o <out.ts|out.js>]
+                             [--modlib <dir>] [--types <index.d.ts>]
+
+  --with, -w   utility to include before the entry (repeat, or comma-separate)
+  --out, -o    output file; .js output strips the types (needs typescript). Default: stdout
+  --modlib     modlib directory (default: modlib/ next to tools/)
+  --types      SDK typings, used for the list of event handler names (default: types/index.d.ts)`;
+
+function parseArgs(argv) {
+    const opts = { ...DEFAULT_OPTIONS, with: [] };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+            return argv[++i];
+        };
+        if (arg === '--with' || arg === '-w') opts.with.push(...value().split(',').filter((p) => p !== ''));
+        else if (arg === '--out' || arg === '-o') opts.out = value();
+        else if (arg === '--modlib') opts.modlibDir = value();
+        else if (arg === '--types') opts.typesFile = value();
+        else if (arg === '--help' || arg === '-h') return undefined;
+        else if (arg.startsWith('-')) throw new Error(`unknown option ${arg}`);
+        else if (opts.entry === '') opts.entry = arg;
+        else throw new Error(`unexpected argument ${arg} (utilities go after --with)`);
+    }
+    if (opts.entry === '') return undefined;
+    return opts;
+}
+
+function main(argv) {
+    let opts;
+    try {
+        opts = parseArgs(argv);
+    } catch (e) {
+        console.error(`${e.message}\n\n${USAGE}`);
+        return 2;
+    }
+    if (!opts) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    const result = bundle(opts);
+    let code = result.code;
+    if (!result.diagnostics.hasErrors() && extname(opts.out) === '.js') code = transpileToJs(code, result.diagnostics);
+
+    for (const line of result.diagnostics.format()) console.error(line);
+    if (result.diagnostics.hasErrors()) {
+        console.error('bundle failed; nothing written');
+        return 1;
+    }
+
+    if (opts.out === '') {
+        process.stdout.write(code);
+    } else {
+        mkdirSync(dirname(resolve(opts.out)), { recursive: true });
+        writeFileSync(opts.out, code);
+        const summary = [`${opts.out}: ${(code.length / 1024).toFixed(1)} KB`, `modlib ${result.modlib.kept}/${result.modlib.total} declarations`];
+        if (result.deduped.length > 0) summary.push(`emitted once: ${result.deduped.map((d) => `${d.name} (x${d.count})`).join(', ')}`);
+        if (result.merged.length > 0) summary.push(`merged: ${result.merged.map((m) => `${m.name} (x${m.defs.length})`).join(', ')}`);
+        console.error(summary.join('; '));
+    }
+    return 0;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(resolve(process.argv[1])).href) {
+    process.exitCode = main(process.argv.slice(2));
+}
@@ -1,24 +1,16 @@
 // Declarations for auto-converted block logic identifiers used in the project.
 // These are permissive `any` declarations to satisfy the TypeScript compiler
 // while keeping the original runtime names intact.
-
-declare const EnableAIGlobalVar: any;
-declare const EnableTeamSwitchingGlobalVar: any;
-declare const GameOngoingGlobalVar: any;
-declare const OtherTeamTeamVar: any;
-declare const StartingScoreGlobalVar: any;
-declare const TeamScoreTeamVar: any;
-declare const ScorePositionLeftGlobalVar: any;
-declare const ScorePositionRightGlobalVar: any;
-declare const FriendlyTextColourGlobalVar: any;
-declare const FriendlyBGColourGlobalVar: any;
-declare const EnemeyTextColourGlobalVar: any;
-declare const EnemyBGColourGlobalVar: any;
+//
+// The converted game variables (TeamScoreTeamVar, StartingScoreGlobalVar, GameOngoingGlobalVar, ...)
+// are not declared here: define them as typed modlib.store keys on the same indexes instead, e.g.
+// `const TeamScore = modlib.store.team("TeamScore", 0, { index: 0 })` (see docs/STORE.md).
 
 declare function UniquePlayerUI1(...args: any[]): any;
 declare function UniquePlayerUI2(...args: any[]): any;
 
-// Condition/action handlers (declared loosely)
+// Condition/action handlers (declared loosely); register them with modlib.rules.addHandlers({ ... })
+// instead of wiring each into the SDK exports (see docs/RULES.md).
 declare function OngoingGlobal_Initialise(...args: any[]): any;
 declare function OngoingGlobal_Update_Score_and_Time(...args: any[]): any;
 declare function OngoingGlobal_Update_Score_and_Time1(...args: any[]): any;